@@ -2,6 +2,7 @@ CREATE TABLE IF NOT EXISTS validation_projects (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     name TEXT NOT NULL,
     description TEXT,
+    settings TEXT, -- JSON: project level validation options
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -11,6 +12,14 @@ CREATE TABLE IF NOT EXISTS imported_files (
     original_filename TEXT NOT NULL,
     file_type TEXT CHECK(file_type IN ('source', 'target', 'codebook')), 
     stored_filename TEXT,
+    sheet_name TEXT, -- sheet holding the data, NULL = first sheet
+    header_row INTEGER, -- 0-based sheet row of the header, NULL = first row
+    data_start_row INTEGER, -- 0-based sheet row where data starts
+    csv_options TEXT, -- JSON: encoding, delimiter and quote of CSV/TSV files
+    version INTEGER DEFAULT 1, -- re-uploads of a file get the next version
+    previous_file_id INTEGER, -- version this file replaced
+    superseded_at DATETIME, -- set when a newer version was uploaded, NULL = current
+    codebook_config TEXT, -- JSON: key, label and validity columns of a codebook
     uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE
 );
@@ -21,6 +30,7 @@ CREATE TABLE IF NOT EXISTS file_columns (
     column_name TEXT NOT NULL,
     column_index INTEGER NOT NULL,
     sample_value TEXT,
+    profile TEXT, -- JSON: inferred type, empty/distinct counts, min/max, top values and patterns
     FOREIGN KEY(file_id) REFERENCES imported_files(id) ON DELETE CASCADE
 );
 
@@ -38,12 +48,13 @@ CREATE TABLE IF NOT EXISTS column_mappings (
 CREATE TABLE IF NOT EXISTS validation_rules (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     column_mapping_id INTEGER NOT NULL,
-    rule_type TEXT NOT NULL, -- 'exact_match', 'exists_in_codebook', 'format_regex', 'not_empty'
+    rule_type TEXT NOT NULL, -- 'exact_match', 'exists_in_codebook', 'format_regex', 'not_empty', 'min_length', 'max_length', 'min_value', 'max_value', 'data_type', 'allowed_values'
     parameter TEXT,
-    severity TEXT DEFAULT 'error', 
+    severity TEXT DEFAULT 'error', -- 'error', 'warning', 'info'
     FOREIGN KEY(column_mapping_id) REFERENCES column_mappings(id) ON DELETE CASCADE
 );
 
+-- Legacy flat log of the last validation, superseded by validation_runs / validation_issues
 CREATE TABLE IF NOT EXISTS validation_results (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     project_id INTEGER NOT NULL,
@@ -55,3 +66,99 @@ CREATE TABLE IF NOT EXISTS validation_results (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE
 );
+
+CREATE TABLE IF NOT EXISTS validation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    source_file_id INTEGER,
+    target_file_id INTEGER,
+    source_filename TEXT,
+    target_filename TEXT,
+    key_columns TEXT, -- JSON array of key column names
+    mapping_snapshot TEXT, -- JSON: mappings, comparison modes and rules used by the run
+    issues_count INTEGER DEFAULT 0,
+    issue_counts TEXT, -- JSON: { issue type: count }
+    severity_counts TEXT, -- JSON: { severity: count } of the open (not waived) issues
+    waived_count INTEGER DEFAULT 0,
+    reconciliation TEXT, -- JSON: results of the aggregate checks (counts and totals per group)
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS validation_issues (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL,
+    issue_type TEXT NOT NULL,
+    severity TEXT DEFAULT 'error',
+    rule_type TEXT,
+    issue_key TEXT,
+    key_parts TEXT, -- JSON array
+    column_name TEXT,
+    expected_value TEXT,
+    actual_value TEXT,
+    message TEXT,
+    source_row INTEGER,
+    target_row INTEGER,
+    row_numbers TEXT, -- JSON array of all rows involved (duplicate keys)
+    waiver_id INTEGER, -- issue_waivers.id of the waiver accepting the issue, NULL while open
+    FOREIGN KEY(run_id) REFERENCES validation_runs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_validation_issues_run ON validation_issues(run_id, issue_type);
+
+-- Validations running in the background (worker threads)
+CREATE TABLE IF NOT EXISTS validation_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    status TEXT DEFAULT 'running', -- 'running', 'cancelling', 'completed', 'failed', 'cancelled'
+    phase TEXT, -- 'source', 'target', 'compare'
+    rows_processed INTEGER DEFAULT 0,
+    rows_total INTEGER DEFAULT 0,
+    progress INTEGER DEFAULT 0, -- percent
+    run_id INTEGER, -- run stored by a completed job
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    finished_at DATETIME,
+    FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE,
+    FOREIGN KEY(run_id) REFERENCES validation_runs(id) ON DELETE SET NULL
+);
+
+-- Mapping configurations saved for reuse in other projects, keyed by column names
+CREATE TABLE IF NOT EXISTS mapping_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    definition TEXT NOT NULL, -- JSON: columns (source/target names, key, comparison, rules) and project settings
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Single-column rules on the source or target file, checked on every row of that
+-- file whether or not the row or column has a counterpart in the other file
+CREATE TABLE IF NOT EXISTS column_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    file_type TEXT CHECK(file_type IN ('source', 'target')),
+    column_name TEXT NOT NULL, -- columns are matched by name, so rules survive new versions of the file
+    rule_type TEXT NOT NULL, -- any rule type except 'exact_match'
+    parameter TEXT,
+    severity TEXT DEFAULT 'error',
+    FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE
+);
+
+-- Issues accepted as known differences, with a reason and an author. A waiver matches
+-- issues by any combination of type, column and key (or key range) and is applied to
+-- every later run of the project.
+CREATE TABLE IF NOT EXISTS issue_waivers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    issue_type TEXT, -- NULL matches any type
+    column_name TEXT, -- NULL matches any column
+    issue_key TEXT, -- exact key, NULL matches any key
+    key_from TEXT, -- inclusive key range, compared as numbers when both are numbers
+    key_to TEXT,
+    reason TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(project_id) REFERENCES validation_projects(id) ON DELETE CASCADE
+);
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import path from 'path';
+// SheetJS community edition does not write cell styles, its styling fork does
+import * as XLSX from 'xlsx-js-style';
+import db, { type FileRow, type FileColumnRow, type IssueRow } from './database.ts';
+import { toIssue } from './runs.ts';
+import { readTable, readWorkbook, resolveLayout, type SheetRow } from './sheets.ts';
+import type { ReportContext } from './reports.ts';
+import type { Issue } from './validator.ts';
+
+// Annotated copy of a run's target file: problem cells are coloured and carry
+// a comment with the expected value, extra rows are flagged and missing rows
+// are appended on a separate sheet.
+
+// Thrown when the files of the run are no longer available
+export class AnnotationError extends Error { }
+
+const FILLS: Record<string, string> = {
+    error: 'FFC7CE',
+    warning: 'FFEB9C',
+    info: 'DDEBF7',
+    extra_row: 'FCE4D6',
+};
+
+const COMMENT_AUTHOR = 'Validator';
+
+const fill = (rgb: string) => ({ fill: { patternType: 'solid', fgColor: { rgb } } });
+
+function loadFile(fileId: number | null, label: string) {
+    const file = fileId ? db.prepare('SELECT * FROM imported_files WHERE id = ?').get(fileId) as FileRow | undefined : undefined;
+    if (!file || !fs.existsSync(file.stored_filename)) {
+        throw new AnnotationError(`${label} file of this run is no longer available`);
+    }
+    return file;
+}
+
+// Short description of an issue, used in comments and in the status column
+function describe(issue: Issue) {
+    switch (issue.type) {
+        case 'value_mismatch':
+            return `Expected: ${issue.expected}${issue.sourceRow ? ` (source row ${issue.sourceRow})` : ''}`;
+        case 'extra_row':
+            return 'Extra row, not in source file';
+        default:
+            return issue.message || issue.type;
+    }
+}
+
+export function annotatedTargetFilename(ctx: ReportContext) {
+    const base = path.parse(ctx.run.target_filename || 'target').name.replace(/[^\w-]+/g, '_');
+    return `${base}_checked_run${ctx.run.id}.xlsx`;
+}
+
+export function buildAnnotatedTarget(ctx: ReportContext): Buffer {
+    const { run } = ctx;
+    const targetFile = loadFile(run.target_file_id, 'Target');
+
+    // Read like the validator reads it (CSV targets come back as a single sheet)
+    const workbook = readWorkbook(targetFile);
+    const layout = resolveLayout(workbook, targetFile);
+    const wb = workbook as XLSX.WorkBook;
+    const sheet = wb.Sheets[layout.sheetName];
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+
+    // Issues name the source column, the snapshot tells which target column it was compared with
+    const targetColumnOf = new Map<string, string>();
+    for (const m of run.mapping_snapshot || []) {
+        if (m.sourceColumn && m.targetColumn) targetColumnOf.set(m.sourceColumn, m.targetColumn);
+        // Issues of derived mappings name the target column
+        if (m.expression && m.targetColumn) targetColumnOf.set(m.targetColumn, m.targetColumn);
+    }
+    const targetColumns = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(targetFile.id) as FileColumnRow[];
+    const targetIndexOf = new Map<string, number>(targetColumns.map(c => [c.column_name, c.column_index]));
+
+    // column_index counts from the first used column of the sheet
+    const cellAt = (rowNumber: number, columnIndex: number) => {
+        const address = XLSX.utils.encode_cell({ r: rowNumber - 1, c: range.s.c + columnIndex });
+        if (!sheet[address]) sheet[address] = { t: 's', v: '' };
+        return sheet[address];
+    };
+
+    const cellNotes = new Map<string, { rowNumber: number; columnIndex: number; severity: string; notes: string[] }>();
+    const rowNotes = new Map<number, string[]>();
+    const extraRows = new Set<number>();
+    const missingSourceRows: Issue[] = [];
+
+    const addRowNote = (rowNumber: number, note: string) => {
+        if (!rowNotes.has(rowNumber)) rowNotes.set(rowNumber, []);
+        rowNotes.get(rowNumber)!.push(note);
+    };
+
+    const issueRows = db.prepare('SELECT * FROM validation_issues WHERE run_id = ? ORDER BY id').iterate(run.id) as IterableIterator<IssueRow>;
+    for (const row of issueRows) {
+        const issue = toIssue(row);
+        // Accepted differences are not flagged in the file
+        if (issue.waiverId) continue;
+
+        if (issue.type === 'missing_row') {
+            missingSourceRows.push(issue);
+            continue;
+        }
+        if (issue.type === 'extra_row' && issue.targetRow) {
+            extraRows.add(issue.targetRow);
+            addRowNote(issue.targetRow, describe(issue));
+            continue;
+        }
+        if (issue.type === 'duplicate_key_target') {
+            for (const rowNumber of issue.rows || [issue.targetRow!]) addRowNote(rowNumber, describe(issue));
+            continue;
+        }
+        if (!issue.targetRow || !issue.column) continue;
+
+        // Issues of target column rules name the target column itself
+        const targetColumn = issue.sourceRow ? targetColumnOf.get(issue.column) : issue.column;
+        const columnIndex = targetIndexOf.get(targetColumn ?? '');
+        if (columnIndex === undefined) {
+            addRowNote(issue.targetRow, `${issue.column}: ${describe(issue)}`);
+            continue;
+        }
+
+        const id = `${issue.targetRow}:${columnIndex}`;
+        if (!cellNotes.has(id)) cellNotes.set(id, { rowNumber: issue.targetRow, columnIndex, severity: issue.severity || 'error', notes: [] });
+        const cell = cellNotes.get(id)!;
+        cell.notes.push(describe(issue));
+        // The most serious issue decides the colour
+        if (issue.severity === 'error' || (issue.severity === 'warning' && cell.severity === 'info')) cell.severity = issue.severity;
+        addRowNote(issue.targetRow, `${targetColumn}: ${issue.type.replace(/_/g, ' ')}`);
+    }
+
+    // Extra rows are tinted as a whole, problem cells on top of that
+    const lastColumn = Math.max(range.e.c - range.s.c, ...targetColumns.map(c => c.column_index));
+    for (const rowNumber of extraRows) {
+        for (let c = 0; c <= lastColumn; c++) cellAt(rowNumber, c).s = fill(FILLS.extra_row);
+    }
+    for (const { rowNumber, columnIndex, severity, notes } of cellNotes.values()) {
+        const cell = cellAt(rowNumber, columnIndex);
+        cell.s = fill(FILLS[severity] || FILLS.error);
+        const comments: XLSX.Comments = [{ a: COMMENT_AUTHOR, t: notes.join('\n') }];
+        comments.hidden = true;
+        cell.c = comments;
+    }
+
+    // Status column after the last used column, one summary per flagged row
+    if (rowNotes.size > 0) {
+        const statusColumn = lastColumn + 1;
+        const header = cellAt(layout.headerRow + 1, statusColumn);
+        header.v = 'Validation Status';
+        header.s = { font: { bold: true } };
+        for (const [rowNumber, notes] of rowNotes) {
+            const cell = cellAt(rowNumber, statusColumn);
+            cell.v = notes.join('; ');
+            cell.s = fill(extraRows.has(rowNumber) ? FILLS.extra_row : FILLS.error);
+        }
+        range.e.c = Math.max(range.e.c, range.s.c + statusColumn);
+        sheet['!ref'] = XLSX.utils.encode_range(range);
+    }
+
+    if (missingSourceRows.length > 0) {
+        XLSX.utils.book_append_sheet(wb, missingRowsSheet(run, missingSourceRows, targetColumns, targetColumnOf), uniqueSheetName(wb, 'Missing Rows'));
+    }
+
+    return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
+
+// Source rows without a counterpart, laid out in the target's columns so that
+// they can be copied into the target file
+function missingRowsSheet(run: ReportContext['run'], issues: Issue[], targetColumns: FileColumnRow[], targetColumnOf: Map<string, string>) {
+    const sourceFile = loadFile(run.source_file_id, 'Source');
+    const rowByNumber = new Map<number, SheetRow>();
+    for (const row of readTable(sourceFile).rows) rowByNumber.set(row.__rowNum__ + 1, row);
+
+    const sourceColumns = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(sourceFile.id) as FileColumnRow[];
+    const sourceIndexOf = new Map<string, number>(sourceColumns.map(c => [c.column_name, c.column_index]));
+    const sourceColumnOf = new Map<string, string>([...targetColumnOf].map(([s, t]) => [t, s]));
+
+    const aoa: unknown[][] = [[...targetColumns.map(c => c.column_name), 'Source Row', 'Key']];
+    for (const issue of issues) {
+        const sourceRow = rowByNumber.get(issue.sourceRow!) || [];
+        aoa.push([
+            ...targetColumns.map(c => {
+                const sourceIndex = sourceIndexOf.get(sourceColumnOf.get(c.column_name) ?? '');
+                return sourceIndex === undefined ? '' : sourceRow[sourceIndex] ?? '';
+            }),
+            issue.sourceRow ?? '',
+            issue.key
+        ]);
+    }
+    return XLSX.utils.aoa_to_sheet(aoa);
+}
+
+const uniqueSheetName = (wb: XLSX.WorkBook, name: string) => {
+    let candidate = name;
+    for (let i = 2; wb.SheetNames.includes(candidate); i++) candidate = `${name} (${i})`;
+    return candidate;
+};
@@ -0,0 +1,206 @@
+import { parseDate, parseNumber, normalizeValue, type ComparisonMode } from './compare.ts';
+
+// Auto-mapping suggestions: every source/target column pair gets a score from the
+// similarity of the names (ignoring diacritics, word order and case, with the
+// project's synonyms) and of sampled values. Pairs are then assigned greedily,
+// best score first, each column at most once.
+
+export interface ColumnSample {
+    id: number;
+    name: string;
+    values: string[];
+}
+
+export interface MappingSuggestion {
+    sourceColumnId: number;
+    targetColumnId: number;
+    score: number;        // 0..1
+    nameScore: number;
+    profileScore: number | null; // null without sampled values
+    reasons: string[];
+}
+
+type ValueType = 'empty' | 'number' | 'date' | 'text';
+
+interface Profile {
+    type: ValueType;
+    distinctRatio: number;
+    values: Set<string>;
+}
+
+// Values are compared on the first rows of both files
+export const AUTO_MAP_SAMPLE_ROWS = 500;
+// Suggestions below this score are not offered
+export const MIN_SCORE = 0.45;
+// Name and values weigh this much when both are known
+const NAME_WEIGHT = 0.6;
+// A value type holds when this share of the sampled values has it
+const TYPE_SHARE = 0.9;
+
+// "Částka_Celkem", "castkaCelkem" -> ['castka', 'celkem']
+export function nameTokens(name: string): string[] {
+    return name
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+// Synonyms are groups of names meaning the same, e.g. ['Quantity', 'Qty', 'Počet'].
+// Each group is represented by its first name.
+function synonymLookup(synonyms: string[][]) {
+    const canonical = new Map<string, string>();
+    for (const group of synonyms) {
+        const head = nameTokens(group[0] || '').join(' ');
+        for (const name of group) canonical.set(nameTokens(name).join(' '), head);
+    }
+    // Whole names first, then word by word ("Order Qty" = "Order Quantity")
+    return (tokens: string[]) => {
+        const whole = canonical.get(tokens.join(' '));
+        if (whole !== undefined) return [whole];
+        return tokens.map(t => canonical.get(t) ?? t);
+    };
+}
+
+export function levenshtein(a: string, b: string) {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+const stringSimilarity = (a: string, b: string) =>
+    a.length + b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+// "qty" abbreviates "quantity": same first letter, the other letters in order
+function isAbbreviation(short: string, long: string) {
+    if (short.length < 2 || short.length >= long.length || short[0] !== long[0]) return false;
+    let pos = 0;
+    for (const ch of short) {
+        pos = long.indexOf(ch, pos);
+        if (pos < 0) return false;
+        pos++;
+    }
+    return true;
+}
+
+// Best of the similarity of the whole names, of their words in any order and of
+// abbreviated words
+function nameSimilarity(a: string[], b: string[]) {
+    const whole = stringSimilarity(a.join(''), b.join(''));
+    if (a.length === 0 || b.length === 0) return whole;
+    const sorted = stringSimilarity([...a].sort().join(''), [...b].sort().join(''));
+    const abbreviated = a.length === b.length
+        && a.every((word, i) => word === b[i] || isAbbreviation(word, b[i]) || isAbbreviation(b[i], word)) ? 0.8 : 0;
+    return Math.max(whole, sorted, abbreviated);
+}
+
+function valueType(values: string[]): ValueType {
+    if (values.length === 0) return 'empty';
+    const share = (test: (v: string) => boolean) => values.filter(test).length / values.length;
+    if (share(v => parseNumber(v) !== null) >= TYPE_SHARE) return 'number';
+    if (share(v => parseDate(v) !== null) >= TYPE_SHARE) return 'date';
+    return 'text';
+}
+
+const COMPARE_AS: Record<ValueType, ComparisonMode> = { empty: 'text', number: 'number', date: 'date', text: 'text_ci' };
+
+function profileOf(sampled: string[]): Profile {
+    const values = sampled.map(v => v.trim()).filter(v => v !== '');
+    const type = valueType(values);
+    // Values are compared the way the validator would compare them (1,50 = 1.5)
+    const normalized = values.map(v => normalizeValue(v, { mode: COMPARE_AS[type] }));
+    const distinct = new Set(normalized);
+    return { type, distinctRatio: values.length ? distinct.size / values.length : 0, values: distinct };
+}
+
+function profileSimilarity(a: Profile, b: Profile) {
+    if (a.type === 'empty' || b.type === 'empty') return null;
+    const typeScore = a.type === b.type ? 1 : 0;
+    const distinctScore = 1 - Math.abs(a.distinctRatio - b.distinctRatio);
+    // Share of the smaller set found in the larger one: samples of different rows still overlap
+    let common = 0;
+    const [small, large] = a.values.size <= b.values.size ? [a.values, b.values] : [b.values, a.values];
+    for (const v of small) if (large.has(v)) common++;
+    const overlap = small.size ? common / small.size : 0;
+    return { score: 0.25 * typeScore + 0.15 * distinctScore + 0.6 * overlap, typeScore, overlap };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function suggestMappings(sources: ColumnSample[], targets: ColumnSample[], synonyms: string[][] = []): MappingSuggestion[] {
+    const canonical = synonymLookup(synonyms);
+    const describe = (col: ColumnSample) => {
+        const tokens = nameTokens(col.name);
+        return { col, tokens, canonical: canonical(tokens), profile: profileOf(col.values) };
+    };
+    const sourceInfo = sources.map(describe);
+    const targetInfo = targets.map(describe);
+
+    const candidates: MappingSuggestion[] = [];
+    for (const s of sourceInfo) {
+        for (const t of targetInfo) {
+            const reasons: string[] = [];
+            let nameScore: number;
+            if (s.tokens.join('') === t.tokens.join('')) {
+                nameScore = 1;
+                reasons.push(s.col.name === t.col.name ? 'same name' : 'same name ignoring case and diacritics');
+            } else if (s.canonical.join(' ') === t.canonical.join(' ')) {
+                nameScore = 0.95;
+                reasons.push('synonyms');
+            } else {
+                nameScore = Math.max(nameSimilarity(s.tokens, t.tokens), nameSimilarity(s.canonical, t.canonical));
+                reasons.push(`names ${percent(nameScore)} similar`);
+            }
+
+            const profile = profileSimilarity(s.profile, t.profile);
+            let score = nameScore;
+            if (profile) {
+                score = NAME_WEIGHT * nameScore + (1 - NAME_WEIGHT) * profile.score;
+                // Matching names are not outvoted by samples of different rows
+                if (nameScore >= 0.95) score = Math.max(score, nameScore - 0.1);
+                reasons.push(profile.typeScore ? `both ${s.profile.type}` : `${s.profile.type} vs ${t.profile.type}`);
+                if (profile.overlap > 0) reasons.push(`values overlap ${percent(profile.overlap)}`);
+            }
+
+            if (score >= MIN_SCORE) {
+                candidates.push({
+                    sourceColumnId: s.col.id,
+                    targetColumnId: t.col.id,
+                    score: Math.round(score * 100) / 100,
+                    nameScore: Math.round(nameScore * 100) / 100,
+                    profileScore: profile ? Math.round(profile.score * 100) / 100 : null,
+                    reasons
+                });
+            }
+        }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    const usedSources = new Set<number>();
+    const usedTargets = new Set<number>();
+    const suggestions: MappingSuggestion[] = [];
+    for (const c of candidates) {
+        if (usedSources.has(c.sourceColumnId) || usedTargets.has(c.targetColumnId)) continue;
+        usedSources.add(c.sourceColumnId);
+        usedTargets.add(c.targetColumnId);
+        suggestions.push(c);
+    }
+    return suggestions;
+}
+
+export function checkSynonyms(synonyms: unknown): string | null {
+    if (!Array.isArray(synonyms)) return 'Synonyms must be a list of name groups';
+    for (const group of synonyms) {
+        if (!Array.isArray(group) || group.some(name => typeof name !== 'string')) {
+            return 'Every synonym group must be a list of column names';
+        }
+    }
+    return null;
+}
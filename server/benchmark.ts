@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as XLSX from 'xlsx';
+
+// Validation benchmark on generated files (default 500 000 rows).
+// Checks that the expected issues are found and reports time and peak memory.
+//
+//   npm run benchmark -- --rows 500000 --format csv|xlsx --max-rss 1024
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+    const idx = args.indexOf(`--${name}`);
+    return idx >= 0 && args[idx + 1] ? args[idx + 1] : fallback;
+};
+
+const ROWS = Number(option('rows', '500000'));
+const FORMAT = option('format', 'csv');
+const MAX_RSS_MB = Number(option('max-rss', '0'));
+
+const MISMATCH_EVERY = 1000;
+const MISSING_EVERY = 5000;
+const EXTRA_ROWS = 100;
+const HEADER = ['Id', 'Customer', 'Amount', 'Date', 'Status'];
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'valibook-bench-'));
+// The benchmark gets its own database, set before database.ts is loaded
+process.env.DATA_DIR = workDir;
+
+const sourceRow = (i: number) => [`ID${String(i).padStart(8, '0')}`, `Customer ${i % 997}`, ((i % 10000) / 100).toFixed(2), `2024-${String(i % 12 + 1).padStart(2, '0')}-15`, i % 3 ? 'OK' : 'HOLD'];
+
+// Target = source with a changed amount every MISMATCH_EVERY rows, a missing row
+// every MISSING_EVERY rows and EXTRA_ROWS rows appended
+function* targetRows() {
+    for (let i = 0; i < ROWS; i++) {
+        if (i % MISSING_EVERY === MISSING_EVERY - 1) continue;
+        const row = sourceRow(i);
+        if (i % MISMATCH_EVERY === 0) row[2] = (Number(row[2]) + 1).toFixed(2);
+        yield row;
+    }
+    for (let i = 0; i < EXTRA_ROWS; i++) yield sourceRow(ROWS + i);
+}
+
+function* sourceRows() {
+    for (let i = 0; i < ROWS; i++) yield sourceRow(i);
+}
+
+const expected = {
+    value_mismatch: Math.ceil(ROWS / MISMATCH_EVERY),
+    missing_row: Math.floor(ROWS / MISSING_EVERY),
+    extra_row: EXTRA_ROWS,
+};
+
+function writeFile(name: string, rows: Iterable<string[]>) {
+    const filePath = path.join(workDir, `${name}.${FORMAT}`);
+    if (FORMAT === 'xlsx') {
+        const sheet = XLSX.utils.aoa_to_sheet([HEADER, ...rows]);
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, sheet, 'Data');
+        XLSX.writeFile(wb, filePath);
+    } else {
+        const fd = fs.openSync(filePath, 'w');
+        let chunk = HEADER.join(';') + '\n';
+        for (const row of rows) {
+            chunk += row.join(';') + '\n';
+            if (chunk.length > 1 << 20) {
+                fs.writeSync(fd, chunk);
+                chunk = '';
+            }
+        }
+        fs.writeSync(fd, chunk);
+        fs.closeSync(fd);
+    }
+    return filePath;
+}
+
+async function main() {
+    console.log(`Generating ${ROWS} rows as ${FORMAT} in ${workDir}...`);
+    const sourcePath = writeFile('source', sourceRows());
+    const targetPath = writeFile('target', targetRows());
+
+    const { default: db, initDatabase } = await import('./database.ts');
+    const { validateProject } = await import('./validator.ts');
+    initDatabase();
+
+    // Project set up directly in the database, the upload route would read the files whole
+    const projectId = db.prepare('INSERT INTO validation_projects (name) VALUES (?)').run('Benchmark').lastInsertRowid;
+    const csvOptions = FORMAT === 'csv' ? JSON.stringify({ encoding: 'utf-8', delimiter: ';', quote: '"' }) : null;
+    const addFile = (filePath: string, fileType: string) => {
+        const fileId = db.prepare(`
+            INSERT INTO imported_files (project_id, original_filename, file_type, stored_filename, sheet_name, header_row, data_start_row, csv_options)
+            VALUES (?, ?, ?, ?, ?, 0, 1, ?)
+        `).run(projectId, path.basename(filePath), fileType, filePath, FORMAT === 'csv' ? null : 'Data', csvOptions).lastInsertRowid;
+        return HEADER.map((name, idx) => db.prepare('INSERT INTO file_columns (file_id, column_name, column_index) VALUES (?, ?, ?)').run(fileId, name, idx).lastInsertRowid);
+    };
+    const sourceCols = addFile(sourcePath, 'source');
+    const targetCols = addFile(targetPath, 'target');
+    HEADER.forEach((name, idx) => {
+        const note = { isKey: idx === 0, comparison: name === 'Amount' ? { mode: 'number' } : undefined };
+        db.prepare('INSERT INTO column_mappings (project_id, source_column_id, target_column_id, mapping_note) VALUES (?, ?, ?, ?)')
+            .run(projectId, sourceCols[idx], targetCols[idx], JSON.stringify(note));
+    });
+
+    let peakRss = process.memoryUsage().rss;
+    const sampler = setInterval(() => { peakRss = Math.max(peakRss, process.memoryUsage().rss); }, 50);
+
+    const started = Date.now();
+    const outcome = await validateProject(Number(projectId));
+    const seconds = (Date.now() - started) / 1000;
+
+    clearInterval(sampler);
+    peakRss = Math.max(peakRss, process.memoryUsage().rss);
+
+    const counts: Record<string, number> = {};
+    for (const issue of outcome.issues) counts[issue.type] = (counts[issue.type] || 0) + 1;
+
+    const peakMb = Math.round(peakRss / 1024 / 1024);
+    console.log(`Validated ${ROWS} rows in ${seconds.toFixed(1)} s (${Math.round(ROWS / seconds)} rows/s), peak RSS ${peakMb} MB`);
+    console.log('Issues:', counts);
+
+    db.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+
+    const failures = Object.entries(expected)
+        .filter(([type, count]) => counts[type] !== count)
+        .map(([type, count]) => `expected ${count} ${type}, found ${counts[type] || 0}`);
+    if (Object.keys(counts).length !== Object.keys(expected).length) failures.push('unexpected issue types');
+    if (MAX_RSS_MB && peakMb > MAX_RSS_MB) failures.push(`peak RSS ${peakMb} MB above the limit of ${MAX_RSS_MB} MB`);
+
+    if (failures.length > 0) {
+        console.error('FAILED: ' + failures.join('; '));
+        process.exit(1);
+    }
+    console.log('OK');
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TemplateFile } from './templates.ts';
+import type { Run } from './runs.ts';
+
+// valibook: validates a target export against its source without the UI, e.g. after
+// a nightly export in a CI pipeline. The mapping comes from an exported template file
+// (validated in a throwaway database) or from a project of the app's database (its
+// files get a new version and the run is stored in its history, waivers apply).
+//
+//   valibook --source export.csv --target import.xlsx --template mapping.template.json --report report.xml
+//   valibook --source export.csv --target import.xlsx --project 3 --report report.json
+//
+// Exit codes: 0 no open errors, 1 open errors found, 2 the validation could not run.
+
+const USAGE = `Usage: valibook --target <file> [--source <file>] (--template <file> | --project <id>) [options]
+
+  --source <file>     source file (CSV, TSV, TXT, XLSX)
+  --target <file>     target file to validate
+  --template <file>   exported mapping template (JSON)
+  --codebook <file>   codebook used by the template's rules, may be repeated
+  --project <id>      project of the app database (DATA_DIR) whose mapping is used
+  --report <file>     report to write, its format follows the extension (.json, .xlsx, .xml)
+  --format <format>   report format: json, xlsx or junit
+  --help              show this help`;
+
+const REPORT_EXTENSIONS: Record<string, string> = { '.json': 'json', '.xlsx': 'xlsx', '.xml': 'junit' };
+
+// Thrown for wrong arguments; printed with the usage
+class UsageError extends Error { }
+
+// Thrown when the files, template or project do not allow a validation; printed as is
+class SetupError extends Error { }
+
+const args = process.argv.slice(2);
+const options = (name: string) => args.flatMap((arg, idx) => arg === `--${name}` && args[idx + 1] ? [args[idx + 1]] : []);
+const option = (name: string) => options(name)[0];
+
+function existingFile(name: string) {
+    const file = option(name);
+    if (file && !fs.existsSync(file)) throw new UsageError(`${name} file '${file}' not found`);
+    return file ? path.resolve(file) : undefined;
+}
+
+function reportFormat(reportPath: string | undefined) {
+    const format = option('format') || (reportPath ? REPORT_EXTENSIONS[path.extname(reportPath).toLowerCase()] : undefined);
+    if (reportPath && !format) throw new UsageError(`Cannot tell the report format from '${reportPath}', use --format json|xlsx|junit`);
+    if (format && !['json', 'xlsx', 'junit'].includes(format)) throw new UsageError(`Unknown report format '${format}'`);
+    return format as 'json' | 'xlsx' | 'junit' | undefined;
+}
+
+async function main(): Promise<number> {
+    if (args.length === 0 || args.includes('--help')) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const source = existingFile('source');
+    const target = existingFile('target');
+    const templatePath = existingFile('template');
+    const projectId = option('project');
+    const codebooks = options('codebook').map(file => {
+        if (!fs.existsSync(file)) throw new UsageError(`codebook file '${file}' not found`);
+        return path.resolve(file);
+    });
+    const reportPath = option('report');
+    const format = reportFormat(reportPath);
+
+    if (!target) throw new UsageError('--target is required');
+    if (!templatePath === !projectId) throw new UsageError('Give either --template or --project');
+    if (projectId && !/^\d+$/.test(projectId)) throw new UsageError(`Project id '${projectId}' is not a number`);
+
+    // Template runs get their own database, set before database.ts is loaded
+    const workDir = templatePath ? fs.mkdtempSync(path.join(os.tmpdir(), 'valibook-')) : null;
+    if (workDir) process.env.DATA_DIR = workDir;
+
+    const { default: db, initDatabase } = await import('./database.ts');
+    const { importFile, currentFile, ImportError } = await import('./files.ts');
+    const { parseTemplateFile, applyTemplate, TemplateError } = await import('./templates.ts');
+    const { validateProject, ValidationSetupError } = await import('./validator.ts');
+    const { saveRun, getRun } = await import('./runs.ts');
+    const reports = await import('./reports.ts');
+    initDatabase();
+
+    try {
+        let project: number;
+        if (templatePath) {
+            let file: TemplateFile;
+            try {
+                file = JSON.parse(fs.readFileSync(templatePath, 'utf-8'));
+            } catch {
+                throw new SetupError(`${path.basename(templatePath)} is not a template file`);
+            }
+            const template = parseTemplateFile(file);
+            if (!source && (template.definition.columns.length > 0 || template.definition.derived?.length)) {
+                throw new UsageError('The template maps a source file, --source is required');
+            }
+            project = Number(db.prepare('INSERT INTO validation_projects (name) VALUES (?)').run(template.name).lastInsertRowid);
+            // The database is thrown away, so the files are read where they are
+            for (const file of codebooks) importFile(project, 'codebook', file, path.basename(file));
+            if (source) importFile(project, 'source', source, path.basename(source));
+            importFile(project, 'target', target, path.basename(target));
+
+            const applied = applyTemplate(project, template.definition);
+            for (const missing of applied.missing) console.warn(`Warning: template column '${missing.column}' not found in the ${missing.fileType} file`);
+            for (const name of applied.missingCodebooks) console.warn(`Warning: codebook '${name}' of the template not given, its rules are skipped`);
+        } else {
+            project = Number(projectId);
+            if (!db.prepare('SELECT id FROM validation_projects WHERE id = ?').get(project)) throw new UsageError(`Project ${project} not found`);
+            // Copies are stored like uploads, so that the project's history keeps them
+            const uploadsDir = process.env.UPLOADS_DIR || 'uploads/';
+            fs.mkdirSync(uploadsDir, { recursive: true });
+            const store = (file: string, fileType: 'source' | 'target') => {
+                const stored = path.join(uploadsDir, `${Date.now()}-${Math.round(Math.random() * 1e9)}-${path.basename(file)}`);
+                fs.copyFileSync(file, stored);
+                importFile(project, fileType, stored, path.basename(file), {}, currentFile(project, fileType));
+            };
+            if (source) store(source, 'source');
+            store(target, 'target');
+        }
+
+        const runId = saveRun(project, await validateProject(project));
+        const run = getRun(runId);
+        printSummary(run);
+
+        if (reportPath && format) {
+            const ctx = reports.loadReportContext(runId)!;
+            if (format === 'xlsx') {
+                fs.writeFileSync(reportPath, reports.buildXlsxReport(ctx));
+            } else {
+                const out = fs.createWriteStream(reportPath);
+                const finished = new Promise<void>(resolve => out.on('finish', () => resolve()));
+                await (format === 'json' ? reports.writeJsonReport : reports.writeJUnitReport)(ctx, out);
+                await finished;
+            }
+            console.log(`Report: ${reportPath}`);
+        }
+
+        return run.severity_counts.error > 0 ? 1 : 0;
+    } catch (error) {
+        if (error instanceof ValidationSetupError || error instanceof TemplateError || error instanceof ImportError) {
+            throw new SetupError(error.message);
+        }
+        throw error;
+    } finally {
+        db.close();
+        if (workDir) fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
+
+function printSummary(run: Run) {
+    const waived = run.waived_count || 0;
+    const open = run.issues_count - waived;
+    const { error = 0, warning = 0, info = 0 } = run.severity_counts;
+
+    console.log(`Run #${run.id}: ${run.source_filename ? `${run.source_filename} -> ` : ''}${run.target_filename}`);
+    console.log(`Issues: ${open} open (${error} errors, ${warning} warnings, ${info} info), ${waived} waived`);
+    for (const [type, count] of Object.entries(run.issue_counts)) console.log(`  ${type}: ${count}`);
+
+    const reconciliation = run.reconciliation || [];
+    if (reconciliation.length > 0) {
+        console.log(`Reconciliation: ${reconciliation.filter(r => r.passed).length} of ${reconciliation.length} checks passed`);
+    }
+    console.log(error > 0 ? 'FAILED' : 'PASSED');
+}
+
+main().then(code => {
+    process.exitCode = code;
+}).catch(error => {
+    if (error instanceof UsageError) {
+        console.error(`Error: ${error.message}\n\n${USAGE}`);
+    } else if (error instanceof SetupError) {
+        console.error(`Error: ${error.message}`);
+    } else {
+        console.error(error);
+    }
+    process.exitCode = 2;
+});
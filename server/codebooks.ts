@@ -0,0 +1,137 @@
+import type { FileRow } from './database.ts';
+import { readTable } from './sheets.ts';
+import { parseDate } from './compare.ts';
+import { ExpressionError } from './expressions.ts';
+
+// Codebooks: lists of allowed codes, optionally with labels and validity dates.
+// Which columns hold what is configured per codebook file (imported_files.codebook_config);
+// the sheet and header row come from the file's layout like for any other file.
+
+export interface CodebookConfig {
+    keyColumn?: string;       // column of the codes, default the first column
+    labelColumns?: string[];  // columns with names/descriptions of the codes
+    validFromColumn?: string; // entries apply from this date on (empty = always)
+    validToColumn?: string;   // ... up to this date (empty = open ended)
+    validOn?: string;         // YYYY-MM-DD the validity is checked for, default the day of validation
+}
+
+// Mapping option (mapping_note.translate): the source value is looked up in a codebook
+// and replaced by another column of the matching entry before it is compared.
+export interface Translation {
+    codebookFileId: number;
+    from?: string;  // codebook column holding the source values, default any label column
+    to?: string;    // column the value is translated to, default the key column
+    ignoreCase?: boolean;
+    collapseWhitespace?: boolean; // trim and turn runs of whitespace into one space
+}
+
+export interface CodebookEntry {
+    rowNumber: number;
+    values: Record<string, string>;
+}
+
+export interface Codebook {
+    headers: string[];
+    keyColumn: string;
+    labelColumns: string[];
+    entries: CodebookEntry[]; // valid entries only
+    expired: number;          // entries left out as not valid on the day
+    values: Set<string>;      // codes of the valid entries
+}
+
+export const parseCodebookConfig = (file: { codebook_config?: string | null }): CodebookConfig =>
+    JSON.parse(file.codebook_config || '{}');
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function loadCodebook(file: FileRow): Codebook {
+    const config = parseCodebookConfig(file);
+    const table = readTable(file);
+    const headers = table.headers;
+    const keyColumn = config.keyColumn && headers.includes(config.keyColumn) ? config.keyColumn : headers[0];
+    const labelColumns = (config.labelColumns || []).filter(c => headers.includes(c));
+    const validOn = config.validOn || today();
+
+    const entries: CodebookEntry[] = [];
+    let expired = 0;
+    for (const row of table.rows) {
+        const values: Record<string, string> = {};
+        headers.forEach((h, idx) => { values[h] = String(row[idx] ?? '').trim(); });
+        if (values[keyColumn] === '') continue;
+
+        // Dates that cannot be read do not limit the validity
+        const from = config.validFromColumn ? parseDate(values[config.validFromColumn] ?? '') : null;
+        const to = config.validToColumn ? parseDate(values[config.validToColumn] ?? '') : null;
+        if ((from && from > validOn) || (to && to < validOn)) {
+            expired++;
+            continue;
+        }
+        entries.push({ rowNumber: row.__rowNum__ + 1, values });
+    }
+
+    return { headers, keyColumn, labelColumns, entries, expired, values: new Set(entries.map(e => e.values[keyColumn])) };
+}
+
+const normalizer = (t: Translation) => (value: string) => {
+    let s = t.collapseWhitespace ? value.trim().replace(/\s+/g, ' ') : value;
+    if (t.ignoreCase) s = s.toLowerCase();
+    return s;
+};
+
+// Lookup of a translation: normalized source value -> translated value.
+// The first entry wins when several share a value.
+export function translationLookup(codebook: Codebook, t: Translation) {
+    const normalize = normalizer(t);
+    const fromColumns = t.from ? [t.from] : codebook.labelColumns.length ? codebook.labelColumns : [codebook.keyColumn];
+    const to = t.to || codebook.keyColumn;
+
+    const lookup = new Map<string, string>();
+    for (const entry of codebook.entries) {
+        for (const column of fromColumns) {
+            const key = normalize(entry.values[column] ?? '');
+            if (key !== '' && !lookup.has(key)) lookup.set(key, entry.values[to] ?? '');
+        }
+    }
+    return (value: string) => lookup.get(normalize(value)) ?? null;
+}
+
+// lookup() of expressions over the given codebook files: a codebook is found by its
+// file name, a project with a single codebook uses that one
+export function expressionLookup(files: FileRow[], load: (file: FileRow) => Codebook = loadCodebook) {
+    const lookups = new Map<string, (value: string) => string | null>();
+    return (name: string, value: string, to?: string, from?: string) => {
+        const id = JSON.stringify([name, to, from]);
+        if (!lookups.has(id)) {
+            const file = files.find(f => f.original_filename === name) ?? (files.length === 1 ? files[0] : undefined);
+            if (!file) throw new ExpressionError(`Codebook '${name}' not found`);
+            lookups.set(id, translationLookup(load(file), { codebookFileId: file.id, to, from }));
+        }
+        return lookups.get(id)!(value);
+    };
+}
+
+// Returns an error message for an invalid codebook configuration, null when it is ok
+export function checkCodebookConfig(config: CodebookConfig | null, headers: string[]): string | null {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) return 'Codebook configuration must be an object';
+    for (const field of ['keyColumn', 'validFromColumn', 'validToColumn'] as const) {
+        const column = config[field];
+        if (column !== undefined && column !== null && column !== '' && !headers.includes(column)) return `Column '${column}' not found in the codebook`;
+    }
+    if (config.labelColumns !== undefined) {
+        if (!Array.isArray(config.labelColumns)) return 'Label columns must be a list';
+        const unknown = config.labelColumns.find(c => !headers.includes(c));
+        if (unknown !== undefined) return `Column '${unknown}' not found in the codebook`;
+    }
+    if (config.validOn && !/^\d{4}-\d{2}-\d{2}$/.test(config.validOn)) return 'Validity date must be YYYY-MM-DD';
+    return null;
+}
+
+// Returns an error message for an invalid translation, null when it is ok
+export function checkTranslation(t: Translation | undefined): string | null {
+    if (!t) return null;
+    if (!Number.isInteger(t.codebookFileId)) return 'Translation needs a codebook file';
+    for (const field of ['from', 'to'] as const) {
+        if (t[field] !== undefined && typeof t[field] !== 'string') return `Translation '${field}' must be a column name`;
+    }
+    return null;
+}
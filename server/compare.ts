@@ -0,0 +1,153 @@
+// Typed comparison of source and target values (stored per mapping in mapping_note.comparison)
+
+export const COMPARISON_MODES = ['text', 'text_ci', 'number', 'date', 'boolean'] as const;
+
+export type ComparisonMode = typeof COMPARISON_MODES[number];
+
+export interface ComparisonConfig {
+    mode: ComparisonMode;
+    absTolerance?: number;   // number: allowed absolute difference
+    relTolerance?: number;   // number: allowed relative difference (0.01 = 1 %)
+    dateFormats?: string[];  // date: accepted input formats, e.g. 'DD.MM.YYYY'
+    trueValues?: string[];   // boolean: extra synonyms for true
+    falseValues?: string[];  // boolean: extra synonyms for false
+}
+
+export const DEFAULT_COMPARISON: ComparisonConfig = { mode: 'text' };
+
+// Day and month tokens accept one or two digits, spaces around separators are optional
+const DEFAULT_DATE_FORMATS = ['YYYY-MM-DD', 'D. M. YYYY', 'YYYY/MM/DD'];
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'ano', 'a', 'x'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'ne'];
+
+// Excel stores dates as days since 1899-12-30 (including the fake 1900-02-29)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_EXCEL_SERIAL = 2958465; // 9999-12-31
+
+// Parses numbers written with spaces or apostrophes as thousand separators and
+// either a decimal comma or a decimal point ('1 234,50', '1,234.50', '1.234,5').
+export function parseNumber(value: string): number | null {
+    let s = value.replace(/[\s']/g, '');
+    if (s === '') return null;
+
+    const lastComma = s.lastIndexOf(',');
+    const lastDot = s.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) {
+        // Whichever separator comes last is the decimal one
+        s = lastComma > lastDot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+    } else if (lastComma >= 0) {
+        s = s.indexOf(',') === lastComma ? s.replace(',', '.') : s.replace(/,/g, '');
+    } else if (lastDot >= 0 && s.indexOf('.') !== lastDot) {
+        s = s.replace(/\./g, '');
+    }
+
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(s)) return null;
+    return Number(s);
+}
+
+const formatRegexCache = new Map<string, { regex: RegExp; fields: string[] }>();
+
+function compileDateFormat(format: string) {
+    if (!formatRegexCache.has(format)) {
+        const fields: string[] = [];
+        const pattern = format
+            .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            .replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => {
+                fields.push(token);
+                return token.length === 4 ? '(\\d{4})' : token === 'YY' ? '(\\d{2})' : '(\\d{1,2})';
+            })
+            .replace(/\s+/g, '\\s*');
+        formatRegexCache.set(format, { regex: new RegExp(`^${pattern}$`), fields });
+    }
+    return formatRegexCache.get(format)!;
+}
+
+const isoDate = (year: number, month: number, day: number) => {
+    const d = new Date(Date.UTC(year, month - 1, day));
+    if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+    return d.toISOString().slice(0, 10);
+};
+
+// Parses a date (ignoring any time of day) into 'YYYY-MM-DD'. Pure numbers that
+// match none of the formats are taken as Excel date serials.
+export function parseDate(value: string, formats: string[] = DEFAULT_DATE_FORMATS): string | null {
+    const s = value.trim();
+    if (s === '') return null;
+
+    for (const format of formats) {
+        const { regex, fields } = compileDateFormat(format);
+        const match = regex.exec(s) || regex.exec(s.split(/[T\s](?=\d{1,2}:)/)[0]);
+        if (!match) continue;
+
+        let year = 0, month = 1, day = 1;
+        fields.forEach((field, i) => {
+            const n = Number(match[i + 1]);
+            if (field === 'YYYY') year = n;
+            else if (field === 'YY') year = n < 70 ? 2000 + n : 1900 + n;
+            else if (field === 'MM' || field === 'M') month = n;
+            else if (field === 'DD' || field === 'D') day = n;
+        });
+        const iso = isoDate(year, month, day);
+        if (iso) return iso;
+    }
+
+    if (/^\d+(\.\d+)?$/.test(s)) {
+        const serial = Number(s);
+        if (serial > 0 && serial <= MAX_EXCEL_SERIAL) {
+            return new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+        }
+    }
+    return null;
+}
+
+export function parseBoolean(value: string, cfg: ComparisonConfig): boolean | null {
+    const s = value.trim().toLowerCase();
+    if ([...TRUE_VALUES, ...(cfg.trueValues || [])].some(v => v.toLowerCase() === s)) return true;
+    if ([...FALSE_VALUES, ...(cfg.falseValues || [])].some(v => v.toLowerCase() === s)) return false;
+    return null;
+}
+
+// Canonical text form of a value (used for keys and multiset signatures).
+// Values that cannot be parsed in the configured mode stay as they are.
+export function normalizeValue(value: string, cfg: ComparisonConfig = DEFAULT_COMPARISON): string {
+    const s = value.trim();
+    switch (cfg.mode) {
+        case 'text_ci':
+            return s.toLowerCase();
+        case 'number': {
+            const n = parseNumber(s);
+            return n === null ? s : String(n);
+        }
+        case 'date':
+            return parseDate(s, cfg.dateFormats?.length ? cfg.dateFormats : undefined) ?? s;
+        case 'boolean': {
+            const b = parseBoolean(s, cfg);
+            return b === null ? s : String(b);
+        }
+        default:
+            return s;
+    }
+}
+
+export function valuesEqual(expected: string, actual: string, cfg: ComparisonConfig = DEFAULT_COMPARISON): boolean {
+    if (cfg.mode === 'number') {
+        const a = parseNumber(expected);
+        const b = parseNumber(actual);
+        if (a !== null && b !== null) {
+            const diff = Math.abs(a - b);
+            const scale = Math.max(Math.abs(a), Math.abs(b));
+            // A tiny relative epsilon absorbs floating point noise from Excel
+            return diff <= (cfg.absTolerance || 0) || diff <= scale * Math.max(cfg.relTolerance || 0, 1e-12);
+        }
+    }
+    return normalizeValue(expected, cfg) === normalizeValue(actual, cfg);
+}
+
+// Returns an error message for an invalid comparison config, null when it is ok
+export function checkComparisonConfig(cfg: ComparisonConfig | undefined): string | null {
+    if (!cfg) return null;
+    if (!COMPARISON_MODES.includes(cfg.mode)) return `Unknown comparison mode '${cfg.mode}'`;
+    if (cfg.absTolerance !== undefined && !(cfg.absTolerance >= 0)) return 'Absolute tolerance must be a non-negative number';
+    if (cfg.relTolerance !== undefined && !(cfg.relTolerance >= 0)) return 'Relative tolerance must be a non-negative number';
+    return null;
+}
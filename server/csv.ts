@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { Transform, pipeline } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { parse as parseStream } from 'csv-parse';
+
+// Delimited text exports (CSV, TSV). Parsed with csv-parse instead of SheetJS, which
+// guesses the delimiter and encoding badly and turns IDs like 00123 into numbers.
+
+export const CSV_ENCODINGS = ['utf-8', 'windows-1250', 'iso-8859-2'] as const;
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export const CSV_QUOTES = ['"', "'"] as const;
+
+export type CsvEncoding = typeof CSV_ENCODINGS[number];
+
+export interface CsvOptions {
+    encoding: CsvEncoding;
+    delimiter: string;
+    quote: string;
+}
+
+const DETECT_LINES = 50;
+// Bytes read from the start of a file to detect its options
+const DETECT_BYTES = 1024 * 1024;
+
+export const isCsvFile = (filename: string) => /\.(csv|tsv|txt)$/i.test(filename);
+
+// UTF-8 (with or without BOM) when the bytes are valid UTF-8. Otherwise one of the
+// Central European code pages, told apart by where they put Š, š, Ž, ž, Ť, ť:
+// Windows-1250 uses 0x80-0x9F, which are unused control codes in ISO-8859-2.
+// A sample may end inside a UTF-8 character, which is not held against it.
+export function detectEncoding(buffer: Buffer, sample = false): CsvEncoding {
+    if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) return 'utf-8';
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: sample });
+        return 'utf-8';
+    } catch {
+        // not UTF-8
+    }
+
+    let windows = 0;
+    let iso = 0;
+    for (const byte of buffer) {
+        if (byte >= 0x80 && byte <= 0x9F) windows++;
+        else if ([0xA9, 0xAB, 0xAE, 0xB9, 0xBB, 0xBE].includes(byte)) iso++;
+    }
+    return iso > 0 && windows === 0 ? 'iso-8859-2' : 'windows-1250';
+}
+
+// The BOM is dropped by TextDecoder
+export const decodeCsv = (buffer: Buffer, encoding: CsvEncoding) => new TextDecoder(encoding).decode(buffer);
+
+const sampleLines = (text: string) => text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, DETECT_LINES);
+
+// Quote character that opens fields most often
+export function detectQuote(text: string): string {
+    const lines = sampleLines(text);
+    const opening = (quote: string) => lines.reduce((n, line) =>
+        n + (line.match(new RegExp(`(^|[,;\\t|])${quote}`, 'g')) || []).length, 0);
+    return opening("'") > opening('"') ? "'" : '"';
+}
+
+// The delimiter that splits the lines into the same (largest) number of fields;
+// quoted parts are ignored, as they may contain any of the candidates
+export function detectDelimiter(text: string, quote = '"', fallback = ','): string {
+    const quoted = new RegExp(`${quote}[^${quote}]*${quote}`, 'g');
+    const lines = sampleLines(text).map(line => line.replace(quoted, ''));
+    if (lines.length === 0) return fallback;
+
+    let best = fallback;
+    let bestScore = 0;
+    for (const delimiter of CSV_DELIMITERS) {
+        const counts = lines.map(line => line.split(delimiter).length - 1);
+        const frequency = new Map<number, number>();
+        for (const c of counts) if (c > 0) frequency.set(c, (frequency.get(c) || 0) + 1);
+        for (const [count, lineCount] of frequency) {
+            // Consistency weighs more than the number of fields
+            const score = lineCount * 1000 + count;
+            if (score > bestScore) {
+                best = delimiter;
+                bestScore = score;
+            }
+        }
+    }
+    return best;
+}
+
+// Start of a file (DETECT_BYTES), enough to detect its options from without reading
+// all of a large file
+export function readCsvSample(filePath: string): Buffer {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(DETECT_BYTES);
+        return buffer.subarray(0, fs.readSync(fd, buffer, 0, DETECT_BYTES, 0));
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+// Options of a file, detected from its contents or a sample of its start
+export function detectCsvOptions(buffer: Buffer, filename: string, sample = false): CsvOptions {
+    const encoding = detectEncoding(buffer, sample);
+    const text = decodeCsv(buffer.subarray(0, 64 * 1024), encoding);
+    const quote = detectQuote(text);
+    const delimiter = detectDelimiter(text, quote, /\.tsv$/i.test(filename) ? '\t' : ',');
+    return { encoding, delimiter, quote };
+}
+
+// The CSV options present in a request body or query
+export const pickCsvOptions = (values: Partial<CsvOptions> | undefined): Partial<CsvOptions> =>
+    Object.fromEntries((['encoding', 'delimiter', 'quote'] as const).filter(k => values?.[k]).map(k => [k, values[k]]));
+
+export function checkCsvOptions(options: Partial<CsvOptions> | null): string | null {
+    if (!options || typeof options !== 'object') return 'CSV options must be an object';
+    if (options.encoding !== undefined && !CSV_ENCODINGS.includes(options.encoding)) return `Unknown encoding '${options.encoding}'`;
+    if (options.delimiter !== undefined && (typeof options.delimiter !== 'string' || options.delimiter.length !== 1)) {
+        return 'Delimiter must be a single character';
+    }
+    if (options.quote !== undefined && !CSV_QUOTES.includes(options.quote as typeof CSV_QUOTES[number])) return `Unsupported quote character '${options.quote}'`;
+    return null;
+}
+
+const parserOptions = (options: CsvOptions) => ({
+    delimiter: options.delimiter,
+    quote: options.quote,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: false
+});
+
+// All values stay text; rows may have different lengths
+export function readCsv(filePath: string, options: CsvOptions): string[][] {
+    const text = decodeCsv(fs.readFileSync(filePath), options.encoding);
+    return parse(text, parserOptions(options)) as string[][];
+}
+
+// Records of a CSV file as a stream, decoded chunk by chunk
+export function streamCsv(filePath: string, options: CsvOptions): AsyncIterable<string[]> {
+    const decoder = new TextDecoder(options.encoding);
+    const decode = new Transform({
+        transform(chunk, _encoding, callback) { callback(null, decoder.decode(chunk, { stream: true })); },
+        flush(callback) { callback(null, decoder.decode()); }
+    });
+    // Errors of any stage end up in the parser and so in the consuming loop
+    return pipeline(fs.createReadStream(filePath), decode, parseStream(parserOptions(options)), () => { });
+}
+
+// Line count of a file, read in chunks
+export async function countCsvLines(filePath: string): Promise<number> {
+    let lines = 0;
+    let last = 0x0A;
+    for await (const chunk of fs.createReadStream(filePath) as AsyncIterable<Buffer>) {
+        for (let i = chunk.indexOf(0x0A); i >= 0; i = chunk.indexOf(0x0A, i + 1)) lines++;
+        last = chunk[chunk.length - 1];
+    }
+    // The last line may lack its line break
+    return last === 0x0A ? lines : lines + 1;
+}
+
+// Sheet name shown for a CSV file (Excel limits sheet names to 31 characters)
+export const csvSheetName = (filename: string) => path.parse(filename).name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Data';
@@ -2,6 +2,9 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { ComparisonConfig } from './compare.ts';
+import type { Translation } from './codebooks.ts';
+import type { RuleType, Severity } from './rules.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,14 +21,186 @@ const schema = fs.readFileSync(path.join(__dirname, '../schema.sql'), 'utf-8');
 
 const db = new Database(DB_PATH);
 
+// Columns added after the initial schema. CREATE TABLE IF NOT EXISTS does not touch
+// existing tables, so older databases get them via ALTER TABLE on startup.
+const addedColumns: { table: string; column: string; definition: string }[] = [
+    { table: 'validation_projects', column: 'settings', definition: 'TEXT' },
+    { table: 'imported_files', column: 'sheet_name', definition: 'TEXT' },
+    { table: 'imported_files', column: 'header_row', definition: 'INTEGER' },
+    { table: 'imported_files', column: 'data_start_row', definition: 'INTEGER' },
+    { table: 'imported_files', column: 'csv_options', definition: 'TEXT' },
+    { table: 'imported_files', column: 'version', definition: 'INTEGER DEFAULT 1' },
+    { table: 'imported_files', column: 'previous_file_id', definition: 'INTEGER' },
+    { table: 'imported_files', column: 'superseded_at', definition: 'DATETIME' },
+    { table: 'imported_files', column: 'codebook_config', definition: 'TEXT' },
+    { table: 'file_columns', column: 'profile', definition: 'TEXT' },
+    { table: 'validation_runs', column: 'waived_count', definition: 'INTEGER DEFAULT 0' },
+    { table: 'validation_runs', column: 'reconciliation', definition: 'TEXT' },
+    { table: 'validation_issues', column: 'waiver_id', definition: 'INTEGER' },
+];
+
+function migrateColumns() {
+    for (const { table, column, definition } of addedColumns) {
+        const existing = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (!existing.some(c => c.name === column)) {
+            db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+    }
+}
+
 export function initDatabase() {
     console.log('Initializing database...');
     try {
         db.exec(schema);
+        migrateColumns();
         console.log('Database initialized successfully.');
     } catch (error) {
         console.error('Failed to initialize database:', error);
     }
 }
 
+// Rows of the tables in schema.sql, as the queries return them. JSON columns stay
+// strings until they are parsed.
+
+export interface ProjectRow {
+    id: number;
+    name: string;
+    description: string | null;
+    settings: string | null;
+    created_at: string;
+}
+
+export interface FileRow {
+    id: number;
+    project_id: number;
+    original_filename: string;
+    file_type: 'source' | 'target' | 'codebook';
+    stored_filename: string;
+    sheet_name: string | null;
+    header_row: number | null;
+    data_start_row: number | null;
+    csv_options: string | null;
+    version: number;
+    previous_file_id: number | null;
+    superseded_at: string | null;
+    codebook_config: string | null;
+    uploaded_at: string;
+}
+
+export interface FileColumnRow {
+    id: number;
+    file_id: number;
+    column_name: string;
+    column_index: number;
+    sample_value: string | null;
+    profile: string | null;
+}
+
+export interface MappingRow {
+    id: number;
+    project_id: number;
+    source_column_id: number | null;
+    target_column_id: number | null;
+    mapping_note: string | null;
+}
+
+// column_mappings.mapping_note
+export interface MappingNote {
+    isKey?: boolean;
+    excluded?: boolean;
+    comparison?: ComparisonConfig;
+    translate?: Translation;
+    expression?: string;
+    codebookFileId?: number; // mappings saved before the rule engine
+}
+
+export interface RuleRow {
+    id: number;
+    column_mapping_id: number;
+    rule_type: RuleType;
+    parameter: string | null;
+    severity: Severity;
+}
+
+export interface ColumnRuleRow {
+    id: number;
+    project_id: number;
+    file_type: 'source' | 'target';
+    column_name: string;
+    rule_type: RuleType;
+    parameter: string | null;
+    severity: Severity;
+}
+
+export interface RunRow {
+    id: number;
+    project_id: number;
+    source_file_id: number | null;
+    target_file_id: number | null;
+    source_filename: string | null;
+    target_filename: string | null;
+    key_columns: string | null;
+    mapping_snapshot: string | null;
+    issues_count: number;
+    issue_counts: string | null;
+    severity_counts: string | null;
+    waived_count: number;
+    reconciliation: string | null;
+    created_at: string;
+}
+
+export interface IssueRow {
+    id: number;
+    run_id: number;
+    issue_type: string;
+    severity: string;
+    rule_type: string | null;
+    issue_key: string;
+    key_parts: string | null;
+    column_name: string | null;
+    expected_value: string | null;
+    actual_value: string | null;
+    message: string | null;
+    source_row: number | null;
+    target_row: number | null;
+    row_numbers: string | null;
+    waiver_id: number | null;
+}
+
+export interface JobRow {
+    id: number;
+    project_id: number;
+    status: 'running' | 'cancelling' | 'completed' | 'failed' | 'cancelled';
+    phase: 'source' | 'target' | 'compare' | null;
+    rows_processed: number;
+    rows_total: number;
+    progress: number;
+    run_id: number | null;
+    error: string | null;
+    created_at: string;
+    finished_at: string | null;
+}
+
+export interface TemplateRow {
+    id: number;
+    name: string;
+    description: string | null;
+    definition: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface WaiverRow {
+    id: number;
+    project_id: number;
+    issue_type: string | null;
+    column_name: string | null;
+    issue_key: string | null;
+    key_from: string | null;
+    key_to: string | null;
+    reason: string;
+    author: string;
+    created_at: string;
+}
+
 export default db;
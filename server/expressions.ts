@@ -0,0 +1,388 @@
+import { parseNumber, parseDate } from './compare.ts';
+
+// Expressions of derived mappings (mapping_note.expression): the value the target
+// should hold, computed from one or more source columns, e.g.
+//   [First Name] + ' ' + [Last Name]
+//   round(qty * unit_price, 2)
+//   if(isEmpty(end), 'open', date(end, 'DD.MM.YYYY'))
+// Expressions are parsed into a tree and evaluated by the functions below only;
+// nothing in them reaches JavaScript.
+
+// Thrown for expressions that cannot be parsed, and for values they cannot be evaluated on
+export class ExpressionError extends Error { }
+
+type Value = string | number | boolean | null;
+
+type Node =
+    | { kind: 'literal'; value: Value }
+    | { kind: 'column'; name: string }
+    | { kind: 'unary'; op: string; arg: Node }
+    | { kind: 'binary'; op: string; left: Node; right: Node }
+    | { kind: 'call'; name: string; args: Node[] };
+
+export interface ExpressionContext {
+    // Looks a value up in a codebook (by file name), null when it has no entry
+    lookup?: (codebook: string, value: string, to?: string, from?: string) => string | null;
+}
+
+export interface Expression {
+    source: string;
+    columns: string[]; // source columns it reads
+    // Expected value of a row, given the (trimmed) value of a source column by name
+    evaluate: (valueOf: (column: string) => string) => string;
+}
+
+// Longest expressions accepted, to keep parsing cheap
+const MAX_EXPRESSION_LENGTH = 2000;
+
+// ---- Values ----
+
+const isEmpty = (v: Value) => v === null || v === '';
+
+const formatNumber = (n: number) => Number.isInteger(n) ? String(n) : String(Number(n.toPrecision(12)));
+
+const toText = (v: Value): string => v === null ? '' : typeof v === 'number' ? formatNumber(v) : String(v);
+
+// Numbers of the file are read like in comparisons ('1 234,5'); empty stays empty
+const toNumber = (v: Value): number | null => {
+    if (typeof v === 'number') return v;
+    if (typeof v === 'boolean') return v ? 1 : 0;
+    if (isEmpty(v)) return null;
+    const n = parseNumber(v as string);
+    if (n === null) throw new ExpressionError(`'${v}' is not a number`);
+    return n;
+};
+
+// Longest text a function builds and largest length or count it takes, so that
+// an expression cannot allocate huge strings
+const MAX_TEXT_LENGTH = 10000;
+
+const toCount = (v: Value, name: string, fallback: number) => {
+    const n = toNumber(v) ?? fallback;
+    if (!Number.isInteger(n) || n < 0 || n > MAX_TEXT_LENGTH) throw new ExpressionError(`${name} must be a whole number from 0 to ${MAX_TEXT_LENGTH}, not ${toText(v)}`);
+    return n;
+};
+
+const checkLength = (length: number, name: string) => {
+    if (length > MAX_TEXT_LENGTH) throw new ExpressionError(`${name} would give text longer than ${MAX_TEXT_LENGTH} characters`);
+};
+
+const isNumeric = (v: Value) => typeof v === 'number' || (typeof v === 'string' && parseNumber(v) !== null);
+
+const truthy = (v: Value) => typeof v === 'boolean' ? v : typeof v === 'number' ? v !== 0 : !isEmpty(v) && !['false', '0'].includes(String(v).toLowerCase());
+
+// Half away from zero, as in Excel
+const roundTo = (n: number, digits: number) => Math.sign(n) * Number(Math.round(Number(`${Math.abs(n)}e${digits}`)) + `e-${digits}`);
+
+const formatDate = (iso: string, format: string) => {
+    const [year, month, day] = iso.split('-');
+    return format.replace(/YYYY|YY|MM|M|DD|D/g, token => {
+        switch (token) {
+            case 'YYYY': return year;
+            case 'YY': return year.slice(2);
+            case 'MM': return month;
+            case 'M': return String(Number(month));
+            case 'DD': return day;
+            default: return String(Number(day));
+        }
+    });
+};
+
+const compare = (left: Value, right: Value) => {
+    if (!isEmpty(left) && !isEmpty(right) && isNumeric(left) && isNumeric(right)) return toNumber(left)! - toNumber(right)!;
+    const a = toText(left), b = toText(right);
+    return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// ---- Functions ----
+
+interface FunctionDef {
+    args: [number, number]; // least and most arguments
+    description: string;
+    apply?: (args: Value[], ctx: ExpressionContext) => Value;
+}
+
+const numeric = (f: (...n: number[]) => number) => (args: Value[]) => {
+    const numbers = args.map(toNumber);
+    return numbers.includes(null) ? null : f(...numbers as number[]);
+};
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+    upper: { args: [1, 1], description: 'upper(text)', apply: ([s]) => toText(s).toUpperCase() },
+    lower: { args: [1, 1], description: 'lower(text)', apply: ([s]) => toText(s).toLowerCase() },
+    trim: { args: [1, 1], description: 'trim(text), also collapses inner whitespace', apply: ([s]) => toText(s).trim().replace(/\s+/g, ' ') },
+    len: { args: [1, 1], description: 'len(text)', apply: ([s]) => toText(s).length },
+    concat: { args: [1, 20], description: 'concat(text, ...)', apply: args => args.map(toText).join('') },
+    left: { args: [2, 2], description: 'left(text, count)', apply: ([s, n]) => toText(s).slice(0, toCount(n, 'left count', 0)) },
+    right: { args: [2, 2], description: 'right(text, count)', apply: ([s, n]) => { const c = toCount(n, 'right count', 0); return c > 0 ? toText(s).slice(-c) : ''; } },
+    substr: {
+        args: [2, 3], description: 'substr(text, start, count) – start counts from 1',
+        apply: ([s, start, n]) => toText(s).substr(Math.max(toCount(start, 'substr start', 1) - 1, 0), n === undefined ? undefined : toCount(n, 'substr count', 0))
+    },
+    replace: {
+        args: [3, 3], description: 'replace(text, find, replacement)',
+        apply: ([s, find, by]) => {
+            const parts = toText(s).split(toText(find)), replacement = toText(by);
+            checkLength(parts.reduce((length, part) => length + part.length, 0) + (parts.length - 1) * replacement.length, 'replace');
+            return parts.join(replacement);
+        }
+    },
+    contains: { args: [2, 2], description: 'contains(text, part)', apply: ([s, part]) => toText(s).includes(toText(part)) },
+    padLeft: { args: [2, 3], description: "padLeft(text, length, '0')", apply: ([s, n, c]) => toText(s).padStart(toCount(n, 'padLeft length', 0), c === undefined ? ' ' : toText(c)) },
+    number: { args: [1, 1], description: "number(text) – reads '1 234,5'", apply: ([v]) => toNumber(v) },
+    round: { args: [1, 2], description: 'round(number, digits)', apply: ([n, d]) => { const x = toNumber(n); return x === null ? null : roundTo(x, toNumber(d ?? 0) ?? 0); } },
+    floor: { args: [1, 1], description: 'floor(number)', apply: numeric(Math.floor) },
+    ceil: { args: [1, 1], description: 'ceil(number)', apply: numeric(Math.ceil) },
+    abs: { args: [1, 1], description: 'abs(number)', apply: numeric(Math.abs) },
+    min: { args: [1, 20], description: 'min(number, ...)', apply: args => { const n = args.filter(v => !isEmpty(v)).map(v => toNumber(v)!); return n.length ? Math.min(...n) : null; } },
+    max: { args: [1, 20], description: 'max(number, ...)', apply: args => { const n = args.filter(v => !isEmpty(v)).map(v => toNumber(v)!); return n.length ? Math.max(...n) : null; } },
+    date: {
+        args: [1, 3], description: "date(value, 'DD.MM.YYYY', 'D/M/YYYY') – formats a date, read in the given input format or the usual ones",
+        apply: ([v, format, input]) => {
+            if (isEmpty(v)) return null;
+            const iso = parseDate(toText(v), input === undefined ? undefined : [toText(input)]);
+            if (!iso) throw new ExpressionError(`'${toText(v)}' is not a date`);
+            return formatDate(iso, format === undefined ? 'YYYY-MM-DD' : toText(format));
+        }
+    },
+    isEmpty: { args: [1, 1], description: 'isEmpty(value)', apply: ([v]) => isEmpty(v) },
+    if: { args: [2, 3], description: 'if(condition, then, else)' },
+    coalesce: { args: [1, 20], description: 'coalesce(value, ...) – the first non-empty value' },
+    lookup: {
+        args: [2, 4], description: "lookup('codebook.xlsx', value, 'to column', 'from column') – translates through a codebook",
+        apply: ([codebook, v, to, from], ctx) => {
+            if (isEmpty(v)) return null;
+            if (!ctx.lookup) throw new ExpressionError('Codebooks are not available here');
+            const found = ctx.lookup(toText(codebook), toText(v), to === undefined ? undefined : toText(to), from === undefined ? undefined : toText(from));
+            if (found === null) throw new ExpressionError(`Value '${toText(v)}' not found in codebook ${toText(codebook)}`);
+            return found;
+        }
+    },
+};
+
+// Signatures of the functions, for the editor's help
+export const EXPRESSION_FUNCTIONS = Object.values(FUNCTIONS).map(f => f.description);
+
+// ---- Parser ----
+
+type Token = { type: 'number' | 'string' | 'column' | 'name' | 'op' | 'end'; text: string; pos: number };
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    const re = /\s*(?:(\d+(?:\.\d+)?)|'((?:[^']|'')*)'|"((?:[^"]|"")*)"|\[([^\]]+)\]|([\p{L}_][\p{L}\p{N}_]*)|(<=|>=|<>|!=|==|&&|\|\||[-+*/%&=<>(),!]))/uy;
+    let pos = 0;
+    while (pos < source.length) {
+        if (/^\s*$/.test(source.slice(pos))) break;
+        re.lastIndex = pos;
+        const m = re.exec(source);
+        if (!m) throw new ExpressionError(`Unexpected '${source.slice(pos).trim()[0]}' at position ${pos + 1}`);
+        const at = pos + m[0].length - m[0].trimStart().length;
+        if (m[1] !== undefined) tokens.push({ type: 'number', text: m[1], pos: at });
+        else if (m[2] !== undefined) tokens.push({ type: 'string', text: m[2].replace(/''/g, "'"), pos: at });
+        else if (m[3] !== undefined) tokens.push({ type: 'string', text: m[3].replace(/""/g, '"'), pos: at });
+        else if (m[4] !== undefined) tokens.push({ type: 'column', text: m[4], pos: at });
+        else if (m[5] !== undefined) tokens.push({ type: 'name', text: m[5], pos: at });
+        else tokens.push({ type: 'op', text: m[6], pos: at });
+        pos = re.lastIndex;
+    }
+    tokens.push({ type: 'end', text: '', pos: source.length });
+    return tokens;
+}
+
+const COMPARISONS: Record<string, string> = { '=': '=', '==': '=', '!=': '!=', '<>': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+
+// Recursive descent, loosest binding first: or, and, not, comparison, + - &, * / %, unary minus
+function parse(source: string): Node {
+    const tokens = tokenize(source);
+    let i = 0;
+    const peek = () => tokens[i];
+    const isOp = (...ops: string[]) => peek().type === 'op' && ops.includes(peek().text);
+    const isWord = (word: string) => peek().type === 'name' && peek().text.toLowerCase() === word;
+    const expect = (op: string) => {
+        if (!isOp(op)) throw new ExpressionError(`Expected '${op}' at position ${peek().pos + 1}`);
+        i++;
+    };
+
+    const or = (): Node => {
+        let left = and();
+        while (isOp('||') || isWord('or')) { i++; left = { kind: 'binary', op: 'or', left, right: and() }; }
+        return left;
+    };
+    const and = (): Node => {
+        let left = not();
+        while (isOp('&&') || isWord('and')) { i++; left = { kind: 'binary', op: 'and', left, right: not() }; }
+        return left;
+    };
+    const not = (): Node => {
+        if (isOp('!') || isWord('not')) { i++; return { kind: 'unary', op: 'not', arg: not() }; }
+        return comparison();
+    };
+    const comparison = (): Node => {
+        const left = additive();
+        if (peek().type === 'op' && COMPARISONS[peek().text]) {
+            const op = COMPARISONS[tokens[i++].text];
+            return { kind: 'binary', op, left, right: additive() };
+        }
+        return left;
+    };
+    const additive = (): Node => {
+        let left = multiplicative();
+        while (isOp('+', '-', '&')) { const op = tokens[i++].text; left = { kind: 'binary', op, left, right: multiplicative() }; }
+        return left;
+    };
+    const multiplicative = (): Node => {
+        let left = unary();
+        while (isOp('*', '/', '%')) { const op = tokens[i++].text; left = { kind: 'binary', op, left, right: unary() }; }
+        return left;
+    };
+    const unary = (): Node => {
+        if (isOp('-')) { i++; return { kind: 'unary', op: '-', arg: unary() }; }
+        return primary();
+    };
+    const primary = (): Node => {
+        const token = tokens[i++];
+        switch (token.type) {
+            case 'number': return { kind: 'literal', value: Number(token.text) };
+            case 'string': return { kind: 'literal', value: token.text };
+            case 'column': return { kind: 'column', name: token.text.trim() };
+            case 'name': {
+                if (isOp('(')) {
+                    i++;
+                    const args: Node[] = [];
+                    while (!isOp(')')) {
+                        if (args.length > 0) expect(',');
+                        args.push(or());
+                    }
+                    expect(')');
+                    return { kind: 'call', name: token.text, args };
+                }
+                const word = token.text.toLowerCase();
+                if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+                if (word === 'null' || word === 'empty') return { kind: 'literal', value: null };
+                return { kind: 'column', name: token.text };
+            }
+            case 'op':
+                if (token.text === '(') {
+                    const inner = or();
+                    expect(')');
+                    return inner;
+                }
+                throw new ExpressionError(`Unexpected '${token.text}' at position ${token.pos + 1}`);
+            default:
+                throw new ExpressionError('Expression ends unexpectedly');
+        }
+    };
+
+    if (peek().type === 'end') throw new ExpressionError('Expression is empty');
+    const tree = or();
+    if (peek().type !== 'end') throw new ExpressionError(`Unexpected '${peek().text}' at position ${peek().pos + 1}`);
+    return tree;
+}
+
+// ---- Evaluation ----
+
+function evaluateNode(node: Node, valueOf: (column: string) => string, ctx: ExpressionContext): Value {
+    const ev = (n: Node) => evaluateNode(n, valueOf, ctx);
+    switch (node.kind) {
+        case 'literal': return node.value;
+        case 'column': return valueOf(node.name);
+        case 'unary': {
+            const v = ev(node.arg);
+            if (node.op === 'not') return !truthy(v);
+            const n = toNumber(v);
+            return n === null ? null : -n;
+        }
+        case 'binary': {
+            if (node.op === 'and') return truthy(ev(node.left)) && truthy(ev(node.right));
+            if (node.op === 'or') return truthy(ev(node.left)) || truthy(ev(node.right));
+            const left = ev(node.left);
+            const right = ev(node.right);
+            switch (node.op) {
+                case '&': return toText(left) + toText(right);
+                // Adds numbers, joins anything else
+                case '+':
+                    if (isNumeric(left) && isNumeric(right)) return toNumber(left)! + toNumber(right)!;
+                    return toText(left) + toText(right);
+                case '-': case '*': case '/': case '%': {
+                    const a = toNumber(left), b = toNumber(right);
+                    if (a === null || b === null) return null;
+                    if ((node.op === '/' || node.op === '%') && b === 0) throw new ExpressionError('Division by zero');
+                    return node.op === '-' ? a - b : node.op === '*' ? a * b : node.op === '/' ? a / b : a % b;
+                }
+                case '=': return compare(left, right) === 0;
+                case '!=': return compare(left, right) !== 0;
+                case '<': return compare(left, right) < 0;
+                case '<=': return compare(left, right) <= 0;
+                case '>': return compare(left, right) > 0;
+                default: return compare(left, right) >= 0;
+            }
+        }
+        case 'call': {
+            // Only the branch taken is evaluated
+            if (node.name === 'if') return truthy(ev(node.args[0])) ? ev(node.args[1]) : node.args[2] ? ev(node.args[2]) : null;
+            if (node.name === 'coalesce') {
+                for (const arg of node.args) {
+                    const v = ev(arg);
+                    if (!isEmpty(v)) return v;
+                }
+                return null;
+            }
+            return FUNCTIONS[node.name].apply!(node.args.map(ev), ctx);
+        }
+    }
+}
+
+// Unknown functions and wrong argument counts are found before any row is evaluated
+function checkCalls(node: Node, columns: Set<string>) {
+    switch (node.kind) {
+        case 'column':
+            columns.add(node.name);
+            break;
+        case 'unary':
+            checkCalls(node.arg, columns);
+            break;
+        case 'binary':
+            checkCalls(node.left, columns);
+            checkCalls(node.right, columns);
+            break;
+        case 'call': {
+            const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+            if (!fn) throw new ExpressionError(`Unknown function '${node.name}'`);
+            const [least, most] = fn.args;
+            if (node.args.length < least || node.args.length > most) {
+                throw new ExpressionError(`${node.name}() takes ${least === most ? least : `${least} to ${most}`} arguments`);
+            }
+            node.args.forEach(arg => checkCalls(arg, columns));
+            break;
+        }
+    }
+}
+
+// Parses an expression; throws an ExpressionError when it is malformed or, when the
+// source's columns are given, reads a column the source file does not have.
+export function compileExpression(source: string, sourceColumns?: string[], ctx: ExpressionContext = {}): Expression {
+    if (source.length > MAX_EXPRESSION_LENGTH) throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    const tree = parse(source);
+    const columns = new Set<string>();
+    checkCalls(tree, columns);
+    const unknown = sourceColumns && [...columns].find(c => !sourceColumns.includes(c));
+    if (unknown !== undefined) throw new ExpressionError(`Column '${unknown}' not found in the source file`);
+
+    return {
+        source,
+        columns: [...columns],
+        evaluate: valueOf => toText(evaluateNode(tree, valueOf, ctx))
+    };
+}
+
+// Returns an error message for a malformed expression, null when it is ok
+export function checkExpression(expression: unknown, sourceColumns?: string[]): string | null {
+    if (typeof expression !== 'string') return 'Expression must be text';
+    try {
+        compileExpression(expression, sourceColumns);
+        return null;
+    } catch (error) {
+        if (error instanceof ExpressionError) return error.message;
+        throw error;
+    }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import db, { type FileRow, type FileColumnRow, type MappingRow, type MappingNote } from './database.ts';
+import { checkLayout, completeLayout, csvOptionsOf, detectSheet, isCsvUpload, readWorkbook, tableFromWorkbook, type SheetLayout, type SheetTable } from './sheets.ts';
+import { checkCsvOptions, type CsvOptions } from './csv.ts';
+import { profileTable } from './profile.ts';
+
+// Imported files: stored sheet layout and the columns found with it, versions of
+// re-uploaded files
+
+// Thrown for CSV options or a sheet layout that do not fit the imported file
+export class ImportError extends Error { }
+
+export interface ImportOptions {
+    csv?: Partial<CsvOptions>; // detected unless given
+    sheetName?: string;        // detected unless given
+    headerRow?: number;
+    dataStartRow?: number;
+}
+
+// Records a stored upload of a project with its layout and columns. A new version
+// of `previous` takes over its mappings.
+export function importFile(
+    projectId: number | string, fileType: string, storedFilename: string, originalFilename: string,
+    options: ImportOptions = {}, previous: FileRow | null = null
+) {
+    const uploaded = { stored_filename: storedFilename, original_filename: originalFilename, csv_options: null as string | null };
+
+    // Delimited text: encoding, delimiter and quote are detected unless given
+    if (isCsvUpload(uploaded)) {
+        const csvError = checkCsvOptions(options.csv || {});
+        if (csvError) throw new ImportError(csvError);
+        uploaded.csv_options = JSON.stringify({ ...csvOptionsOf(uploaded), ...options.csv });
+    }
+    const workbook = readWorkbook(uploaded);
+
+    // Sheet and header row may be given up front, otherwise they are detected
+    const chosen = { sheetName: options.sheetName || detectSheet(workbook), headerRow: options.headerRow, dataStartRow: options.dataStartRow };
+    const layoutError = checkLayout(workbook, chosen);
+    if (layoutError) throw new ImportError(layoutError);
+    const layout = completeLayout(workbook, chosen);
+
+    const fileId = Number(db.prepare('INSERT INTO imported_files (project_id, original_filename, file_type, stored_filename, sheet_name, header_row, data_start_row, csv_options) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(projectId, originalFilename, fileType, storedFilename, layout.sheetName, layout.headerRow, layout.dataStartRow, uploaded.csv_options)
+        .lastInsertRowid);
+
+    // Analyze Columns of the chosen header row
+    syncColumns(fileId, tableFromWorkbook(workbook, layout));
+
+    // Mappings move over to the new version
+    const replaced = previous ? replaceFile(previous, fileId) : null;
+
+    const csv = uploaded.csv_options ? JSON.parse(uploaded.csv_options) : null;
+    return { fileId, layout, csv, workbook, replaced };
+}
+
+export function saveLayout(fileId: number | string, layout: SheetLayout) {
+    db.prepare('UPDATE imported_files SET sheet_name = ?, header_row = ?, data_start_row = ? WHERE id = ?')
+        .run(layout.sheetName, layout.headerRow, layout.dataStartRow, fileId);
+}
+
+export function saveCsvOptions(fileId: number | string, options: CsvOptions) {
+    db.prepare('UPDATE imported_files SET csv_options = ? WHERE id = ?').run(JSON.stringify(options), fileId);
+}
+
+// Stores the columns of a table with their profiles. Columns that already exist
+// under the same name keep their id, so that mappings survive a change of layout;
+// columns that are gone are dropped together with the mappings that used them.
+export function syncColumns(fileId: number | string, table: SheetTable) {
+    const firstRow = table.rows[0] || [];
+    const profiles = profileTable(table);
+    const existing = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(fileId) as FileColumnRow[];
+
+    const insertCol = db.prepare('INSERT INTO file_columns (file_id, column_name, column_index, sample_value, profile) VALUES (?, ?, ?, ?, ?)');
+    const updateCol = db.prepare('UPDATE file_columns SET column_index = ?, sample_value = ?, profile = ? WHERE id = ?');
+
+    db.transaction(() => {
+        table.headers.forEach((name, idx) => {
+            const sample = String(firstRow[idx] ?? '');
+            const profile = JSON.stringify(profiles[idx]);
+            const reused = existing.findIndex(c => c.column_name === name);
+            if (reused >= 0) {
+                updateCol.run(idx, sample, profile, existing[reused].id);
+                existing.splice(reused, 1);
+            } else {
+                insertCol.run(fileId, name, idx, sample, profile);
+            }
+        });
+
+        for (const gone of existing) {
+            detachColumn(gone.id);
+            db.prepare('DELETE FROM file_columns WHERE id = ?').run(gone.id);
+        }
+    })();
+}
+
+// Current version of the project's source or target file. Older databases may hold
+// several current files of a type, the first upload is the one that was validated.
+export function currentFile(projectId: number | string, fileType: 'source' | 'target') {
+    return db.prepare('SELECT * FROM imported_files WHERE project_id = ? AND file_type = ? AND superseded_at IS NULL ORDER BY id LIMIT 1')
+        .get(projectId, fileType) as FileRow | undefined;
+}
+
+export function currentFiles(projectId: number | string) {
+    return db.prepare('SELECT * FROM imported_files WHERE project_id = ? AND superseded_at IS NULL ORDER BY id').all(projectId) as FileRow[];
+}
+
+// All versions of a file, newest first
+export function fileVersions(fileId: number | string) {
+    const versions: FileRow[] = [];
+    const byId = db.prepare('SELECT * FROM imported_files WHERE id = ?');
+    const newerOf = db.prepare('SELECT * FROM imported_files WHERE previous_file_id = ?');
+    // Newer versions point back at this one
+    let file = byId.get(fileId) as FileRow | undefined;
+    for (let newer = file; newer; newer = newerOf.get(newer.id) as FileRow | undefined) {
+        file = newer;
+    }
+    for (; file; file = file.previous_file_id ? byId.get(file.previous_file_id) as FileRow | undefined : undefined) versions.push(file);
+    return versions;
+}
+
+export interface ReplaceResult {
+    previousFileId: number;
+    version: number;
+    removedColumns: string[];
+    addedColumns: string[];
+}
+
+// Makes a newly uploaded file (with its columns stored) the next version of another.
+// Mappings and codebook rules move to the new file, columns are matched by name;
+// mappings of columns that are gone are dropped like on a change of layout.
+export function replaceFile(previous: FileRow, fileId: number): ReplaceResult {
+    const oldCols = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(previous.id) as FileColumnRow[];
+    const newCols = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(fileId) as FileColumnRow[];
+    const version = (previous.version ?? 1) + 1;
+    const result: ReplaceResult = { previousFileId: previous.id, version, removedColumns: [], addedColumns: [] };
+
+    db.transaction(() => {
+        db.prepare('UPDATE imported_files SET version = ?, previous_file_id = ? WHERE id = ?').run(version, previous.id, fileId);
+        db.prepare('UPDATE imported_files SET superseded_at = CURRENT_TIMESTAMP WHERE id = ?').run(previous.id);
+
+        for (const col of oldCols) {
+            const match = newCols.find(c => c.column_name === col.column_name);
+            if (match) {
+                db.prepare('UPDATE column_mappings SET source_column_id = ? WHERE source_column_id = ?').run(match.id, col.id);
+                db.prepare('UPDATE column_mappings SET target_column_id = ? WHERE target_column_id = ?').run(match.id, col.id);
+            } else {
+                result.removedColumns.push(col.column_name);
+                detachColumn(col.id);
+            }
+        }
+        result.addedColumns = newCols.filter(c => !oldCols.some(o => o.column_name === c.column_name)).map(c => c.column_name);
+
+        if (previous.file_type === 'codebook') {
+            db.prepare("UPDATE validation_rules SET parameter = ? WHERE rule_type = 'exists_in_codebook' AND parameter = ?").run(String(fileId), String(previous.id));
+            db.prepare("UPDATE column_rules SET parameter = ? WHERE rule_type = 'exists_in_codebook' AND parameter = ?").run(String(fileId), String(previous.id));
+            db.prepare('UPDATE imported_files SET codebook_config = ? WHERE id = ?').run(previous.codebook_config ?? null, fileId);
+            updateNoteCodebooks(previous.project_id, previous.id, fileId);
+        }
+    })();
+    return result;
+}
+
+// Codebooks referenced from mapping notes: translations, and the codebook of
+// mappings made before the rule engine. Without a replacement they are dropped.
+function updateNoteCodebooks(projectId: number, codebookId: number, replacementId: number | null) {
+    const mappings = db.prepare('SELECT id, mapping_note FROM column_mappings WHERE project_id = ?').all(projectId) as Pick<MappingRow, 'id' | 'mapping_note'>[];
+    for (const m of mappings) {
+        let note: MappingNote;
+        try { note = JSON.parse(m.mapping_note || '{}'); } catch { continue; }
+        const legacy = note.codebookFileId === codebookId;
+        const translated = note.translate?.codebookFileId === codebookId;
+        if (!legacy && !translated) continue;
+
+        if (legacy && replacementId) note.codebookFileId = replacementId;
+        else if (legacy) delete note.codebookFileId;
+        if (translated && replacementId) note.translate.codebookFileId = replacementId;
+        else if (translated) delete note.translate;
+        db.prepare('UPDATE column_mappings SET mapping_note = ? WHERE id = ?').run(JSON.stringify(note), m.id);
+    }
+}
+
+// Mappings of a column that is going away: as source it takes the mapping (and its
+// rules) with it, as target the mapping stays unmapped
+function detachColumn(columnId: number) {
+    db.prepare('DELETE FROM validation_rules WHERE column_mapping_id IN (SELECT id FROM column_mappings WHERE source_column_id = ?)').run(columnId);
+    db.prepare('DELETE FROM column_mappings WHERE source_column_id = ?').run(columnId);
+    db.prepare('UPDATE column_mappings SET target_column_id = NULL WHERE target_column_id = ?').run(columnId);
+}
+
+// Deletes a file with its stored upload. Deleting the current version deletes the
+// whole history; an older version is just taken out of it.
+export function deleteFile(file: FileRow) {
+    const doomed = file.superseded_at ? [file] : fileVersions(file.id);
+
+    db.transaction(() => {
+        for (const f of doomed) {
+            const columns = db.prepare('SELECT id FROM file_columns WHERE file_id = ?').all(f.id) as Pick<FileColumnRow, 'id'>[];
+            for (const col of columns) detachColumn(col.id);
+            db.prepare('DELETE FROM file_columns WHERE file_id = ?').run(f.id);
+            if (f.file_type === 'codebook') {
+                db.prepare("DELETE FROM validation_rules WHERE rule_type = 'exists_in_codebook' AND parameter = ?").run(String(f.id));
+                db.prepare("DELETE FROM column_rules WHERE rule_type = 'exists_in_codebook' AND parameter = ?").run(String(f.id));
+                updateNoteCodebooks(f.project_id, f.id, null);
+            }
+            // The newer version now follows the older one
+            db.prepare('UPDATE imported_files SET previous_file_id = ? WHERE previous_file_id = ?').run(f.previous_file_id ?? null, f.id);
+            db.prepare('DELETE FROM imported_files WHERE id = ?').run(f.id);
+        }
+    })();
+
+    for (const f of doomed) {
+        if (f.stored_filename) fs.rmSync(f.stored_filename, { force: true });
+    }
+    return doomed.length;
+}
@@ -0,0 +1,132 @@
+import { parseNumber, parseDate } from './compare.ts';
+import { SEVERITIES, type Severity } from './rules.ts';
+import type { SheetRow } from './sheets.ts';
+
+// Row filters (validation_projects.settings.filters): which rows of the source and of
+// the target are validated at all, e.g. only active customers or the current period.
+// Rows filtered out are skipped before they are keyed, so they are never missing or extra.
+
+export const FILTER_OPERATORS = [
+    'equals', 'not_equals',
+    'contains', 'not_contains', 'starts_with', 'ends_with',
+    'greater_than', 'greater_or_equal', 'less_than', 'less_or_equal',
+    'in', 'not_in',   // value: allowed values separated by '|'
+    'empty', 'not_empty',
+    'matches',        // value: regular expression
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+    column: string;
+    operator: FilterOperator;
+    value?: string;
+}
+
+export interface RowFilter {
+    combine?: 'and' | 'or'; // how the conditions are combined, default 'and'
+    conditions: FilterCondition[];
+}
+
+export interface RowFilters {
+    source?: RowFilter;
+    target?: RowFilter;
+}
+
+// How rows without a counterpart are reported (validation_projects.settings.unmatchedRows),
+// 'off' skips them; a file that is a filtered export of the other can leave them out
+export const UNMATCHED_ROW_ISSUES = ['missing_row', 'extra_row'] as const;
+
+export type UnmatchedRowIssue = typeof UNMATCHED_ROW_ISSUES[number];
+
+export type UnmatchedRowSettings = Partial<Record<UnmatchedRowIssue, Severity | 'off'>>;
+
+// Thrown when a filter names a column the file does not have
+export class RowFilterError extends Error { }
+
+const VALUELESS: FilterOperator[] = ['empty', 'not_empty'];
+
+// Returns an error message for invalid filters, null when they are ok
+export function checkRowFilters(filters: RowFilters | null): string | null {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) return 'Filters must be an object';
+    for (const [side, filter] of Object.entries(filters) as [string, RowFilter | null][]) {
+        if (side !== 'source' && side !== 'target') return `Unknown file '${side}'`;
+        if (filter === null) continue;
+        if (!Array.isArray(filter?.conditions)) return `${side}: filter must contain a list of conditions`;
+        if (filter.combine !== undefined && filter.combine !== 'and' && filter.combine !== 'or') return `${side}: conditions are combined by 'and' or 'or'`;
+        for (const c of filter.conditions) {
+            if (!c || typeof c.column !== 'string' || !c.column) return `${side}: every condition needs a column`;
+            if (!FILTER_OPERATORS.includes(c.operator)) return `${side}: unknown operator '${c?.operator}'`;
+            if (!VALUELESS.includes(c.operator) && typeof c.value !== 'string') return `${side}: ${c.column} ${c.operator} needs a value`;
+            if (c.operator === 'matches') {
+                try { new RegExp(c.value); } catch { return `${side}: invalid regular expression '${c.value}'`; }
+            }
+        }
+    }
+    return null;
+}
+
+// Returns an error message for invalid unmatched row settings, null when they are ok
+export function checkUnmatchedRows(settings: unknown): string | null {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return 'Unmatched row settings must be an object';
+    for (const [type, severity] of Object.entries(settings)) {
+        if (!UNMATCHED_ROW_ISSUES.includes(type as UnmatchedRowIssue)) return `Unknown row issue '${type}'`;
+        if (severity !== 'off' && !SEVERITIES.includes(severity as Severity)) return `Unknown severity '${severity}'`;
+    }
+    return null;
+}
+
+// Ordering of two cell values: as numbers when both are numbers, as dates when both
+// are dates, as text otherwise
+export function compareValues(a: string, b: string) {
+    const x = parseNumber(a), y = parseNumber(b);
+    if (x !== null && y !== null) return x - y;
+    const d = parseDate(a), e = parseDate(b);
+    if (d !== null && e !== null) return d < e ? -1 : d > e ? 1 : 0;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function conditionTest(c: FilterCondition): (value: string) => boolean {
+    const param = (c.value ?? '').trim();
+    switch (c.operator) {
+        case 'equals': return v => v === param;
+        case 'not_equals': return v => v !== param;
+        case 'contains': return v => v.includes(param);
+        case 'not_contains': return v => !v.includes(param);
+        case 'starts_with': return v => v.startsWith(param);
+        case 'ends_with': return v => v.endsWith(param);
+        case 'greater_than': return v => v !== '' && compareValues(v, param) > 0;
+        case 'greater_or_equal': return v => v !== '' && compareValues(v, param) >= 0;
+        case 'less_than': return v => v !== '' && compareValues(v, param) < 0;
+        case 'less_or_equal': return v => v !== '' && compareValues(v, param) <= 0;
+        case 'in': {
+            const values = param.split('|').map(s => s.trim());
+            return v => values.includes(v);
+        }
+        case 'not_in': {
+            const values = param.split('|').map(s => s.trim());
+            return v => !values.includes(v);
+        }
+        case 'empty': return v => v === '';
+        case 'not_empty': return v => v !== '';
+        case 'matches': {
+            const regex = new RegExp(c.value ?? '');
+            return v => regex.test(v);
+        }
+    }
+}
+
+// Test of a row against a filter of a file with the given columns; rows pass when
+// there is no filter. Throws a RowFilterError for columns the file does not have.
+export function rowFilter(filter: RowFilter | null | undefined, columns: { column_name: string; column_index: number }[], fileLabel: string) {
+    if (!filter?.conditions.length) return () => true;
+    const tests = filter.conditions.map(c => {
+        const idx = columns.find(col => col.column_name === c.column)?.column_index;
+        if (idx === undefined) throw new RowFilterError(`Filter column '${c.column}' not found in the ${fileLabel} file`);
+        const test = conditionTest(c);
+        return (row: SheetRow) => test(String(row[idx] ?? '').trim());
+    });
+    return filter.combine === 'or'
+        ? (row: SheetRow) => tests.some(test => test(row))
+        : (row: SheetRow) => tests.every(test => test(row));
+}
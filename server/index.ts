@@ -3,18 +3,35 @@ import cors from 'cors';
 import path from 'path';
 import multer from 'multer';
 import { initDatabase } from './database.ts';
-import db from './database.ts';
-import * as XLSX from 'xlsx';
+import db, { type ProjectRow, type FileRow, type FileColumnRow, type MappingRow, type MappingNote, type RuleRow } from './database.ts';
 import fs from 'fs';
+import { checkMappingRule, checkColumnRule, type ValidationRule } from './rules.ts';
+import { checkComparisonConfig } from './compare.ts';
+import { getRun, listRuns, deleteRun, queryIssues, issueColumns, diffRuns, MAX_PAGE_SIZE } from './runs.ts';
+import { REPORT_FORMATS, loadReportContext, reportFilename, buildXlsxReport, writeCsvReport, writeHtmlReport, writeJsonReport, writeJUnitReport, type ReportFormat } from './reports.ts';
+import { checkLayout, completeLayout, describeSheets, resolveLayout, tableFromWorkbook, readWorkbook, isCsvUpload, csvOptionsOf, sampleRows } from './sheets.ts';
+import { checkCsvOptions, pickCsvOptions } from './csv.ts';
+import { saveLayout, saveCsvOptions, syncColumns, currentFile, currentFiles, fileVersions, deleteFile, importFile, ImportError } from './files.ts';
+import { buildAnnotatedTarget, annotatedTargetFilename, AnnotationError } from './annotate.ts';
+import { loadCodebook, parseCodebookConfig, checkCodebookConfig, checkTranslation, expressionLookup } from './codebooks.ts';
+import { compileExpression, checkExpression, ExpressionError, EXPRESSION_FUNCTIONS } from './expressions.ts';
+import { checkProjectSettings, projectSettings } from './settings.ts';
+import { checkWaiver, listWaivers, createWaiver, deleteWaiver, applyWaivers } from './waivers.ts';
+import { suggestMappings, AUTO_MAP_SAMPLE_ROWS, type ColumnSample } from './automap.ts';
+import { templateFromProject, parseTemplateFile, applyTemplate, listTemplates, getTemplate, saveTemplate, exportTemplate, TemplateError } from './templates.ts';
+import { startValidationJob, getJob, listJobs, cancelJob, recoverJobs, JobConflictError, ACTIVE_STATUSES } from './jobs.ts';
 
 const app = express();
 const PORT = 3001;
+// Source rows an expression is tried on in the mapping view
+const EXPRESSION_PREVIEW_ROWS = 5;
 
 app.use(cors());
 app.use(express.json());
 
 // Initialize Database
 initDatabase();
+recoverJobs();
 
 // Multer setup for file uploads
 const UPLOADS_DIR = process.env.UPLOADS_DIR || 'uploads/';
@@ -58,6 +75,34 @@ app.post('/api/projects', (req, res) => {
     }
 });
 
+// 2b. Project Settings (validation options stored as JSON)
+app.get('/api/projects/:id/settings', (req, res) => {
+    try {
+        const project = db.prepare('SELECT settings FROM validation_projects WHERE id = ?').get(req.params.id) as Pick<ProjectRow, 'settings'> | undefined;
+        if (!project) return res.status(404).json({ error: 'Project not found' });
+        res.json(JSON.parse(project.settings || '{}'));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.put('/api/projects/:id/settings', (req, res) => {
+    try {
+        const project = db.prepare('SELECT settings FROM validation_projects WHERE id = ?').get(req.params.id) as Pick<ProjectRow, 'settings'> | undefined;
+        if (!project) return res.status(404).json({ error: 'Project not found' });
+
+        const settingsError = checkProjectSettings(req.body);
+        if (settingsError) return res.status(400).json({ error: settingsError });
+
+        // Merge, so that clients can update a single option
+        const settings = { ...JSON.parse(project.settings || '{}'), ...req.body };
+        db.prepare('UPDATE validation_projects SET settings = ? WHERE id = ?').run(JSON.stringify(settings), req.params.id);
+        res.json(settings);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
 // 3. Upload File & Analyze Columns
 app.post('/api/projects/:id/files', upload.single('file'), (req, res) => {
     const projectId = req.params.id;
@@ -68,44 +113,140 @@ app.post('/api/projects/:id/files', upload.single('file'), (req, res) => {
         return res.status(400).json({ error: 'Invalid file type' });
     }
 
+    // A new source or target replaces the current one, a codebook is replaced when named by replaceFileId
+    const previous = req.body.replaceFileId
+        ? db.prepare('SELECT * FROM imported_files WHERE id = ? AND project_id = ? AND superseded_at IS NULL').get(req.body.replaceFileId, projectId) as FileRow | undefined
+        : fileType === 'codebook' ? null : currentFile(projectId, fileType);
+    if (req.body.replaceFileId && (!previous || previous.file_type !== fileType)) {
+        fs.rmSync(req.file.path, { force: true });
+        return res.status(400).json({ error: 'The file to replace is not a current file of this type' });
+    }
+
     try {
-        const filePath = req.file.path;
+        const { sheetName, headerRow, dataStartRow } = req.body;
+        const { fileId, layout, csv, workbook, replaced } = importFile(projectId, fileType, req.file.path, req.file.originalname, {
+            csv: pickCsvOptions(req.body),
+            sheetName: sheetName || undefined,
+            headerRow: headerRow === undefined || headerRow === '' ? undefined : Number(headerRow),
+            dataStartRow: dataStartRow === undefined || dataStartRow === '' ? undefined : Number(dataStartRow)
+        }, previous);
+        res.json({ success: true, fileId, layout, csv, sheets: describeSheets(workbook), replaced });
+    } catch (error) {
+        if (error instanceof ImportError) return res.status(400).json({ error: error.message });
+        console.error(error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// 3b. Sheet Layout of a File (sheets with preview, chosen sheet / header row / data start row, CSV options)
+app.get('/api/files/:fileId/sheets', (req, res) => {
+    try {
+        const file = db.prepare('SELECT * FROM imported_files WHERE id = ?').get(req.params.fileId) as FileRow | undefined;
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        // CSV options in the query preview the file without saving them
+        if (isCsvUpload(file)) {
+            const overrides = pickCsvOptions(req.query);
+            const csvError = checkCsvOptions(overrides);
+            if (csvError) return res.status(400).json({ error: csvError });
+            file.csv_options = JSON.stringify({ ...csvOptionsOf(file), ...overrides });
+        }
+
+        const workbook = readWorkbook(file);
+        const csv = file.csv_options ? JSON.parse(file.csv_options) : null;
+        res.json({ layout: resolveLayout(workbook, file), csv, sheets: describeSheets(workbook) });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.put('/api/files/:fileId/layout', (req, res) => {
+    try {
+        const file = db.prepare('SELECT * FROM imported_files WHERE id = ?').get(req.params.fileId) as FileRow | undefined;
+        if (!file) return res.status(404).json({ error: 'File not found' });
+
+        // CSV options are applied first, they change what the sheet looks like
+        if (req.body.csv && isCsvUpload(file)) {
+            const overrides = pickCsvOptions(req.body.csv);
+            const csvError = checkCsvOptions(overrides);
+            if (csvError) return res.status(400).json({ error: csvError });
+            file.csv_options = JSON.stringify({ ...csvOptionsOf(file), ...overrides });
+        }
+
+        const workbook = readWorkbook(file);
+        const { sheetName, headerRow, dataStartRow } = req.body;
+        const chosen = { sheetName, headerRow: headerRow ?? undefined, dataStartRow: dataStartRow ?? undefined };
+        const layoutError = checkLayout(workbook, chosen);
+        if (layoutError) return res.status(400).json({ error: layoutError });
 
-        // Insert file record
-        const fileStmt = db.prepare('INSERT INTO imported_files (project_id, original_filename, file_type, stored_filename) VALUES (?, ?, ?, ?)');
-        const fileInfo = fileStmt.run(projectId, req.file.originalname, fileType, filePath);
-        const fileId = fileInfo.lastInsertRowid;
+        const layout = completeLayout(workbook, chosen);
+        saveLayout(file.id, layout);
+        if (file.csv_options) saveCsvOptions(file.id, JSON.parse(file.csv_options));
+        syncColumns(file.id, tableFromWorkbook(workbook, layout));
 
-        // Parse Columns using XLSX
-        const workbook = XLSX.readFile(filePath);
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
+        const columns = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(file.id);
+        res.json({ layout, csv: file.csv_options ? JSON.parse(file.csv_options) : null, columns });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Convert to JSON (header: 1 means array of arrays)
-        const jsonData: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
+// 3c. File Versions and Deleting Files (deleting the current version deletes its history, stored uploads included)
+app.get('/api/files/:fileId/versions', (req, res) => {
+    try {
+        const versions = fileVersions(req.params.fileId);
+        if (versions.length === 0) return res.status(404).json({ error: 'File not found' });
+        res.json(versions);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        if (jsonData.length > 0) {
-            const headers = jsonData[0];
-            const firstRow = jsonData.length > 1 ? jsonData[1] : [];
+app.delete('/api/files/:fileId', (req, res) => {
+    try {
+        const file = db.prepare('SELECT * FROM imported_files WHERE id = ?').get(req.params.fileId) as FileRow | undefined;
+        if (!file) return res.status(404).json({ error: 'File not found' });
+        res.json({ success: true, deleted: deleteFile(file) });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-            const insertCol = db.prepare('INSERT INTO file_columns (file_id, column_name, column_index, sample_value) VALUES (?, ?, ?, ?)');
-            const insertMany = db.transaction((columns) => {
-                for (const col of columns) insertCol.run(col.fileId, col.name, col.index, col.sample);
-            });
+// 3d. Codebook Configuration (key, label and validity columns) with a preview of the entries
+const describeCodebook = (file: FileRow) => {
+    const codebook = loadCodebook(file);
+    return {
+        config: parseCodebookConfig(file),
+        headers: codebook.headers,
+        keyColumn: codebook.keyColumn,
+        entryCount: codebook.entries.length,
+        expired: codebook.expired,
+        preview: codebook.entries.slice(0, 20)
+    };
+};
+
+app.get('/api/files/:fileId/codebook', (req, res) => {
+    try {
+        const file = db.prepare("SELECT * FROM imported_files WHERE id = ? AND file_type = 'codebook'").get(req.params.fileId) as FileRow | undefined;
+        if (!file) return res.status(404).json({ error: 'Codebook not found' });
+        res.json(describeCodebook(file));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-            const columnsToInsert = headers.map((h, idx) => ({
-                fileId,
-                name: String(h || `Column ${idx + 1}`),
-                index: idx,
-                sample: String(firstRow[idx] || '')
-            }));
+app.put('/api/files/:fileId/codebook', (req, res) => {
+    try {
+        const file = db.prepare("SELECT * FROM imported_files WHERE id = ? AND file_type = 'codebook'").get(req.params.fileId) as FileRow | undefined;
+        if (!file) return res.status(404).json({ error: 'Codebook not found' });
 
-            insertMany(columnsToInsert);
-        }
+        const headers = (db.prepare('SELECT column_name FROM file_columns WHERE file_id = ?').all(file.id) as Pick<FileColumnRow, 'column_name'>[]).map(c => c.column_name);
+        const configError = checkCodebookConfig(req.body, headers);
+        if (configError) return res.status(400).json({ error: configError });
 
-        res.json({ success: true, fileId });
+        db.prepare('UPDATE imported_files SET codebook_config = ? WHERE id = ?').run(JSON.stringify(req.body), file.id);
+        res.json(describeCodebook({ ...file, codebook_config: JSON.stringify(req.body) }));
     } catch (error) {
-        console.error(error);
         res.status(500).json({ error: (error as Error).message });
     }
 });
@@ -113,11 +254,12 @@ app.post('/api/projects/:id/files', upload.single('file'), (req, res) => {
 // 4. Get Project Files and Columns
 app.get('/api/projects/:id/details', (req, res) => {
     try {
-        const files = db.prepare('SELECT * FROM imported_files WHERE project_id = ?').all(req.params.id) as any[];
-
-        for (const file of files) {
-            file.columns = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(file.id);
-        }
+        const files = currentFiles(req.params.id).map(file => ({
+            ...file,
+            columns: (db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(file.id) as FileColumnRow[])
+                .map(c => ({ ...c, profile: c.profile ? JSON.parse(c.profile) : null })),
+            versions: fileVersions(file.id).map(v => ({ id: v.id, version: v.version, original_filename: v.original_filename, uploaded_at: v.uploaded_at }))
+        }));
 
         res.json({ files });
     } catch (error) {
@@ -136,30 +278,102 @@ app.get('/api/projects/:id/mappings', (req, res) => {
             LEFT JOIN file_columns sc ON m.source_column_id = sc.id
             LEFT JOIN file_columns tc ON m.target_column_id = tc.id
             WHERE m.project_id = ?
-        `).all(req.params.id);
-        res.json(mappings);
+        `).all(req.params.id) as MappingRow[];
+
+        const rulesStmt = db.prepare('SELECT * FROM validation_rules WHERE column_mapping_id = ? ORDER BY id');
+        res.json(mappings.map(m => ({ ...m, rules: rulesStmt.all(m.id) as RuleRow[] })));
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
     }
 });
 
 // 6. Save Mappings
+interface MappingInput {
+    sourceColumnId?: number | null;
+    targetColumnId?: number | null;
+    note?: string; // JSON of a MappingNote
+    rules?: ValidationRule[];
+}
+
 app.post('/api/projects/:id/mappings', (req, res) => {
     const projectId = req.params.id;
-    const { mappings } = req.body; // Array of { sourceColumnId, targetColumnId, note }
+    const mappings: MappingInput[] = req.body.mappings;
 
     if (!Array.isArray(mappings)) {
         return res.status(400).json({ error: 'Mappings must be an array' });
     }
 
+    const sourceFile = currentFile(projectId, 'source');
+    const sourceColumnNames = sourceFile
+        ? (db.prepare('SELECT column_name FROM file_columns WHERE file_id = ?').all(sourceFile.id) as Pick<FileColumnRow, 'column_name'>[]).map(c => c.column_name)
+        : undefined;
+
+    for (const m of mappings) {
+        let note: MappingNote;
+        try { note = JSON.parse(m.note || '{}'); } catch { note = {}; }
+        const comparisonError = checkComparisonConfig(note.comparison);
+        if (comparisonError) return res.status(400).json({ error: comparisonError });
+        const translationError = checkTranslation(note.translate);
+        if (translationError) return res.status(400).json({ error: translationError });
+        // Derived mappings: an expression over the source columns instead of a source column
+        if (note.expression !== undefined) {
+            if (m.sourceColumnId || !m.targetColumnId) return res.status(400).json({ error: 'An expression needs a target column and no source column' });
+            if (note.isKey) return res.status(400).json({ error: 'An expression cannot be a key' });
+            const expressionError = checkExpression(note.expression, sourceColumnNames);
+            if (expressionError) return res.status(400).json({ error: expressionError });
+        }
+        // A source column left out of the target on purpose
+        if (note.excluded && (m.targetColumnId || note.isKey)) {
+            return res.status(400).json({ error: 'A column left out of the target cannot be mapped or be a key' });
+        }
+
+        for (const rule of m.rules || []) {
+            const ruleError = checkMappingRule(rule);
+            if (ruleError) return res.status(400).json({ error: ruleError });
+        }
+    }
+
     try {
-        const deleteStmt = db.prepare('DELETE FROM column_mappings WHERE project_id = ?');
+        // Mappings are updated in place (matched by source column, derived ones by target
+        // column), so that their validation rules survive a save. Mappings left out of the
+        // list are removed.
+        const existingStmt = db.prepare('SELECT id, source_column_id, target_column_id FROM column_mappings WHERE project_id = ?');
+        const updateStmt = db.prepare('UPDATE column_mappings SET target_column_id = ?, mapping_note = ? WHERE id = ?');
         const insertStmt = db.prepare('INSERT INTO column_mappings (project_id, source_column_id, target_column_id, mapping_note) VALUES (?, ?, ?, ?)');
+        const deleteStmt = db.prepare('DELETE FROM column_mappings WHERE id = ?');
+        const deleteRulesStmt = db.prepare('DELETE FROM validation_rules WHERE column_mapping_id = ?');
+        const insertRuleStmt = db.prepare('INSERT INTO validation_rules (column_mapping_id, rule_type, parameter, severity) VALUES (?, ?, ?, ?)');
+
+        const saveTransaction = db.transaction((mappingList: MappingInput[]) => {
+            const existing = existingStmt.all(projectId) as Pick<MappingRow, 'id' | 'source_column_id' | 'target_column_id'>[];
+            const kept = new Set<number>();
 
-        const saveTransaction = db.transaction((mappingList) => {
-            deleteStmt.run(projectId);
             for (const m of mappingList) {
-                insertStmt.run(projectId, m.sourceColumnId, m.targetColumnId, m.note || '');
+                const current = existing.find(e => !kept.has(e.id) && (m.sourceColumnId
+                    ? e.source_column_id === m.sourceColumnId
+                    : e.source_column_id === null && e.target_column_id === m.targetColumnId));
+                let mappingId: number;
+                if (current) {
+                    updateStmt.run(m.targetColumnId, m.note || '', current.id);
+                    mappingId = current.id;
+                } else {
+                    mappingId = Number(insertStmt.run(projectId, m.sourceColumnId, m.targetColumnId, m.note || '').lastInsertRowid);
+                }
+                kept.add(mappingId);
+
+                // Rules are replaced only when the client sends them
+                if (Array.isArray(m.rules)) {
+                    deleteRulesStmt.run(mappingId);
+                    for (const rule of m.rules) {
+                        insertRuleStmt.run(mappingId, rule.rule_type, rule.parameter ?? null, rule.severity || 'error');
+                    }
+                }
+            }
+
+            for (const e of existing) {
+                if (kept.has(e.id)) continue;
+                deleteRulesStmt.run(e.id);
+                deleteStmt.run(e.id);
             }
         });
 
@@ -170,215 +384,459 @@ app.post('/api/projects/:id/mappings', (req, res) => {
     }
 });
 
-// 7. Auto-Map Columns (Helper)
-app.post('/api/projects/:id/auto-map', (req, res) => {
+// 7. Auto-Map Columns (scored suggestions from names, synonyms and sampled values)
+app.post('/api/projects/:id/auto-map', async (req, res) => {
     const projectId = req.params.id;
     try {
         // Get source and target files
-        const sourceFile = db.prepare("SELECT id FROM imported_files WHERE project_id = ? AND file_type = 'source' LIMIT 1").get(projectId) as any;
-        const targetFile = db.prepare("SELECT id FROM imported_files WHERE project_id = ? AND file_type = 'target' LIMIT 1").get(projectId) as any;
+        const sourceFile = currentFile(projectId, 'source');
+        const targetFile = currentFile(projectId, 'target');
 
         if (!sourceFile || !targetFile) {
             return res.status(400).json({ error: 'Source or Target file missing' });
         }
 
-        const sourceCols = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(sourceFile.id) as any[];
-        const targetCols = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(targetFile.id) as any[];
+        const synonyms = projectSettings(projectId).synonyms || [];
+
+        const columnSamples = async (file: FileRow): Promise<ColumnSample[]> => {
+            const columns = db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(file.id) as FileColumnRow[];
+            const rows = await sampleRows(file, AUTO_MAP_SAMPLE_ROWS);
+            return columns.map(col => ({ id: col.id, name: col.column_name, values: rows.map(r => String(r[col.column_index] ?? '')) }));
+        };
+
+        const suggestions = suggestMappings(await columnSamples(sourceFile), await columnSamples(targetFile), synonyms);
+        res.json({ suggestions });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// 7b. Validation Rules of a Column Mapping
+app.get('/api/mappings/:mappingId/rules', (req, res) => {
+    try {
+        const rules = db.prepare('SELECT * FROM validation_rules WHERE column_mapping_id = ? ORDER BY id').all(req.params.mappingId);
+        res.json(rules);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.post('/api/mappings/:mappingId/rules', (req, res) => {
+    const { rule_type, parameter, severity } = req.body;
+    const ruleError = checkMappingRule({ rule_type, parameter, severity });
+    if (ruleError) return res.status(400).json({ error: ruleError });
+
+    try {
+        const mapping = db.prepare('SELECT id FROM column_mappings WHERE id = ?').get(req.params.mappingId);
+        if (!mapping) return res.status(404).json({ error: 'Mapping not found' });
+
+        const info = db.prepare('INSERT INTO validation_rules (column_mapping_id, rule_type, parameter, severity) VALUES (?, ?, ?, ?)')
+            .run(req.params.mappingId, rule_type, parameter ?? null, severity || 'error');
+        res.json(db.prepare('SELECT * FROM validation_rules WHERE id = ?').get(info.lastInsertRowid));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.put('/api/rules/:ruleId', (req, res) => {
+    try {
+        const current = db.prepare('SELECT * FROM validation_rules WHERE id = ?').get(req.params.ruleId) as RuleRow | undefined;
+        if (!current) return res.status(404).json({ error: 'Rule not found' });
+
+        const rule = { ...current, ...req.body };
+        const ruleError = checkMappingRule(rule);
+        if (ruleError) return res.status(400).json({ error: ruleError });
+
+        db.prepare('UPDATE validation_rules SET rule_type = ?, parameter = ?, severity = ? WHERE id = ?')
+            .run(rule.rule_type, rule.parameter ?? null, rule.severity || 'error', req.params.ruleId);
+        res.json(db.prepare('SELECT * FROM validation_rules WHERE id = ?').get(req.params.ruleId));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        const newMappings = [];
+app.delete('/api/rules/:ruleId', (req, res) => {
+    try {
+        const info = db.prepare('DELETE FROM validation_rules WHERE id = ?').run(req.params.ruleId);
+        if (info.changes === 0) return res.status(404).json({ error: 'Rule not found' });
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Simple name matching (case-insensitive, ignoring underscores/spaces)
-        const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+// 7c. Column Rules (single-file rules on any column of the source or target, matched by column name)
+app.get('/api/projects/:id/column-rules', (req, res) => {
+    try {
+        const rules = db.prepare('SELECT * FROM column_rules WHERE project_id = ? ORDER BY id').all(req.params.id);
+        res.json(rules);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        for (const sCol of sourceCols) {
-            const sNameNorm = normalize(sCol.column_name);
-            const match = targetCols.find(tCol => normalize(tCol.column_name) === sNameNorm);
+// Replaces all column rules of the project: { rules: [{ file_type, column_name, rule_type, parameter, severity }] }
+app.put('/api/projects/:id/column-rules', (req, res) => {
+    const { rules } = req.body;
+    if (!Array.isArray(rules)) return res.status(400).json({ error: 'Rules must be an array' });
+    for (const rule of rules) {
+        const ruleError = checkColumnRule(rule);
+        if (ruleError) return res.status(400).json({ error: `${rule?.column_name ?? 'Column rule'}: ${ruleError}` });
+    }
 
-            if (match) {
-                newMappings.push({
-                    sourceColumnId: sCol.id,
-                    targetColumnId: match.id,
-                    note: 'Auto-mapped by name'
-                });
+    try {
+        const project = db.prepare('SELECT id FROM validation_projects WHERE id = ?').get(req.params.id);
+        if (!project) return res.status(404).json({ error: 'Project not found' });
+
+        const insertStmt = db.prepare('INSERT INTO column_rules (project_id, file_type, column_name, rule_type, parameter, severity) VALUES (?, ?, ?, ?, ?, ?)');
+        db.transaction(() => {
+            db.prepare('DELETE FROM column_rules WHERE project_id = ?').run(req.params.id);
+            for (const rule of rules) {
+                insertStmt.run(req.params.id, rule.file_type, rule.column_name, rule.rule_type, rule.parameter ?? null, rule.severity || 'error');
             }
-        }
+        })();
+        res.json(db.prepare('SELECT * FROM column_rules WHERE project_id = ? ORDER BY id').all(req.params.id));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        res.json({ mappings: newMappings });
+// 7d. Expressions of Derived Mappings
+app.get('/api/expressions/functions', (req, res) => {
+    res.json({ functions: EXPRESSION_FUNCTIONS });
+});
+
+// The expression evaluated on the first rows of the source file: { expression }
+app.post('/api/projects/:id/expression-preview', async (req, res) => {
+    const projectId = req.params.id;
+    const { expression } = req.body;
+    try {
+        const sourceFile = currentFile(projectId, 'source');
+        if (!sourceFile) return res.status(400).json({ error: 'Upload the source file first' });
+
+        const columns = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(sourceFile.id) as FileColumnRow[];
+        const expressionError = checkExpression(expression, columns.map(c => c.column_name));
+        if (expressionError) return res.status(400).json({ error: expressionError });
+
+        const codebooks = currentFiles(projectId).filter(f => f.file_type === 'codebook');
+        const compiled = compileExpression(expression, undefined, { lookup: expressionLookup(codebooks) });
+        const indexOf = new Map<string, number>(columns.map(c => [c.column_name, c.column_index]));
+        const rows = (await sampleRows(sourceFile, EXPRESSION_PREVIEW_ROWS)).map(row => {
+            const valueOf = (column: string) => String(row[indexOf.get(column)!] ?? '').trim();
+            const values = Object.fromEntries(compiled.columns.map(c => [c, valueOf(c)]));
+            try {
+                return { rowNumber: row.__rowNum__ + 1, values, result: compiled.evaluate(valueOf) };
+            } catch (error) {
+                if (!(error instanceof ExpressionError)) throw error;
+                return { rowNumber: row.__rowNum__ + 1, values, error: error.message };
+            }
+        });
+        res.json({ columns: compiled.columns, rows });
     } catch (error) {
         res.status(500).json({ error: (error as Error).message });
     }
 });
 
-// 8. Validate Project
+// 8. Validate Project (runs in the background, every run is stored with all of its issues)
 app.post('/api/projects/:id/validate', (req, res) => {
-    const projectId = req.params.id;
+    try {
+        const project = db.prepare('SELECT id FROM validation_projects WHERE id = ?').get(req.params.id);
+        if (!project) return res.status(404).json({ error: 'Project not found' });
 
+        const job = startValidationJob(req.params.id);
+        res.status(202).json({ success: true, jobId: job.id, job });
+    } catch (error) {
+        if (error instanceof JobConflictError) {
+            return res.status(409).json({ error: error.message, jobId: error.job.id, job: error.job });
+        }
+        console.error(error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// 8b. Validation Jobs (progress polling and cancellation)
+app.get('/api/projects/:id/jobs', (req, res) => {
     try {
-        // Fetch files
-        const sourceFile = db.prepare("SELECT * FROM imported_files WHERE project_id = ? AND file_type = 'source' LIMIT 1").get(projectId) as any;
-        const targetFile = db.prepare("SELECT * FROM imported_files WHERE project_id = ? AND file_type = 'target' LIMIT 1").get(projectId) as any;
+        res.json(listJobs(req.params.id));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        if (!sourceFile || !targetFile) {
-            return res.status(400).json({ error: 'Missing source or target file' });
+app.get('/api/jobs/:jobId', (req, res) => {
+    try {
+        const job = getJob(req.params.jobId);
+        if (!job) return res.status(404).json({ error: 'Job not found' });
+        res.json(job);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.post('/api/jobs/:jobId/cancel', (req, res) => {
+    try {
+        const job = getJob(req.params.jobId);
+        if (!job) return res.status(404).json({ error: 'Job not found' });
+        if (!ACTIVE_STATUSES.includes(job.status)) {
+            return res.status(409).json({ error: `Job is already ${job.status}`, job });
         }
+        res.json(cancelJob(job.id));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Fetch Mappings
-        const mappings = db.prepare('SELECT * FROM column_mappings WHERE project_id = ?').all(projectId) as any[];
+// 9. Validation Run History
+app.get('/api/projects/:id/runs', (req, res) => {
+    try {
+        res.json(listRuns(req.params.id));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Identify Key Column
-        let keyMapping = mappings.find(m => {
-            try { return JSON.parse(m.mapping_note || '{}').isKey; } catch (e) { return false; }
-        });
+app.get('/api/runs/:runId', (req, res) => {
+    try {
+        const run = getRun(req.params.runId);
+        if (!run) return res.status(404).json({ error: 'Run not found' });
+        res.json({ ...run, columns: issueColumns(run.id) });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // If no key explicitly marked, try to find a mapped column named 'id' or similar, or fail
-        // For this MVP, we REQUIRE a key.
-        if (!keyMapping) {
-            return res.status(400).json({ error: 'No Primary Key defined in mappings. Please select a Key column.' });
+// Paginated issues of a run: ?page=1&pageSize=100&type=&severity=&column=&search=&status=open|waived
+app.get('/api/runs/:runId/issues', (req, res) => {
+    try {
+        const run = getRun(req.params.runId);
+        if (!run) return res.status(404).json({ error: 'Run not found' });
+
+        const q = req.query as Record<string, string | undefined>;
+        res.json(queryIssues(run.id, {
+            page: q.page ? parseInt(q.page) : undefined,
+            pageSize: q.pageSize ? parseInt(q.pageSize) : undefined,
+            type: q.type,
+            severity: q.severity,
+            column: q.column,
+            search: q.search,
+            status: q.status
+        }));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Differences against an older run: ?base=<runId>&status=resolved|new|persisting&page=1&pageSize=100
+app.get('/api/runs/:runId/diff', (req, res) => {
+    try {
+        const q = req.query as Record<string, string | undefined>;
+        const head = getRun(req.params.runId);
+        const base = q.base ? getRun(q.base) : null;
+        if (!head || !base) return res.status(404).json({ error: 'Run not found' });
+        if (head.project_id !== base.project_id) {
+            return res.status(400).json({ error: 'Runs belong to different projects' });
         }
 
-        // Load Mapping Configs
-        const config = mappings.map(m => {
-            const note = JSON.parse(m.mapping_note || '{}');
-            return {
-                sourceId: m.source_column_id,
-                targetId: m.target_column_id,
-                isKey: note.isKey || false,
-                codebookId: note.codebookFileId || null
-            };
+        const diff = diffRuns(base.id, head.id);
+        const filtered = q.status ? diff.issues.filter(i => i.status === q.status) : diff.issues;
+        const pageSize = Math.min(Math.max(parseInt(q.pageSize || '100') || 100, 1), MAX_PAGE_SIZE);
+        const page = Math.max(parseInt(q.page || '1') || 1, 1);
+
+        res.json({
+            baseRunId: base.id,
+            headRunId: head.id,
+            summary: diff.summary,
+            columns: diff.columns,
+            total: filtered.length,
+            page,
+            pageSize,
+            issues: filtered.slice((page - 1) * pageSize, page * pageSize)
         });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        const sourceColInfo = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(sourceFile.id) as any[];
-        const targetColInfo = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(targetFile.id) as any[];
+// 9b. Waivers (accepted differences, applied to every later run of the project)
+app.get('/api/projects/:id/waivers', (req, res) => {
+    try {
+        res.json(listWaivers(req.params.id));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Helper to get column index by ID
-        const getIdx = (colId: number, info: any[]) => info.find(c => c.id === colId)?.column_index;
+// { issueType?, column?, key? | keyFrom?, keyTo?, reason, author, runId? }, runId also applies it to that run
+app.post('/api/projects/:id/waivers', (req, res) => {
+    const waiverError = checkWaiver(req.body);
+    if (waiverError) return res.status(400).json({ error: waiverError });
 
-        const sourceKeyIdx = getIdx(keyMapping.source_column_id, sourceColInfo);
-        const targetKeyIdx = getIdx(keyMapping.target_column_id, targetColInfo);
+    try {
+        const project = db.prepare('SELECT id FROM validation_projects WHERE id = ?').get(req.params.id);
+        if (!project) return res.status(404).json({ error: 'Project not found' });
 
-        if (sourceKeyIdx === undefined || targetKeyIdx === undefined) {
-            return res.status(400).json({ error: 'Key columns not found in file definitions' });
+        const run = req.body.runId ? getRun(req.body.runId) : null;
+        if (req.body.runId && (!run || String(run.project_id) !== String(req.params.id))) {
+            return res.status(404).json({ error: 'Run not found' });
         }
 
-        // Load Data (Memory intensive for large files, but ok for MVP)
-        const readSheet = (path: string) => {
-            const wb = XLSX.readFile(path);
-            return XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1, defval: '' }) as any[][];
-        };
+        const waiver = createWaiver(req.params.id, req.body);
+        if (run) applyWaivers(run.id);
+        res.json(waiver);
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        const sourceRows = readSheet(sourceFile.stored_filename);
-        const targetRows = readSheet(targetFile.stored_filename);
-
-        // Remove Headers
-        const sourceHeader = sourceRows.shift();
-        const targetHeader = targetRows.shift();
-
-        // Index Data by Key
-        const sourceMap = new Map<string, any[]>();
-        sourceRows.forEach((row, i) => sourceMap.set(String(row[sourceKeyIdx]), row));
-
-        const targetMap = new Map<string, any[]>();
-        targetRows.forEach((row, i) => targetMap.set(String(row[targetKeyIdx]), row));
-
-        // Codebook Caches
-        const codebookCache = new Map<number, Set<string>>();
-        const getCodebookValues = (cbId: number) => {
-            if (!codebookCache.has(cbId)) {
-                const cbFile = db.prepare("SELECT * FROM imported_files WHERE id = ?").get(cbId) as any;
-                if (cbFile) {
-                    const rows = readSheet(cbFile.stored_filename) as any[][];
-                    // Assume codebook values are in first column, start from row 1 (skip header)
-                    const values = new Set(rows.slice(1).map(r => String(r[0])));
-                    codebookCache.set(cbId, values);
-                } else {
-                    codebookCache.set(cbId, new Set());
-                }
-            }
-            return codebookCache.get(cbId)!;
-        };
+app.delete('/api/waivers/:waiverId', (req, res) => {
+    try {
+        if (!deleteWaiver(req.params.waiverId)) return res.status(404).json({ error: 'Waiver not found' });
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        const results: { key: string; type: string; message?: string; column?: string; expected?: string; actual?: string }[] = [];
-
-        // 1. Check Missing in Target
-        for (const [key, sRow] of sourceMap) {
-            if (!targetMap.has(key)) {
-                results.push({
-                    key,
-                    type: 'missing_row',
-                    message: `Row with Key ${key} missing in Target file`
-                });
-            } else {
-                // Compare Rows
-                const tRow = targetMap.get(key)!;
-
-                for (const cfg of config) {
-                    if (cfg.targetId) {
-                        const sIdx = getIdx(cfg.sourceId, sourceColInfo);
-                        const tIdx = getIdx(cfg.targetId, targetColInfo);
-
-                        if (sIdx !== undefined && tIdx !== undefined) {
-                            const sVal = String(sRow[sIdx]).trim();
-                            const tVal = String(tRow[tIdx]).trim();
-
-                            if (sVal !== tVal) {
-                                results.push({
-                                    key,
-                                    type: 'value_mismatch',
-                                    column: sourceColInfo.find(c => c.id === cfg.sourceId)?.column_name,
-                                    expected: sVal,
-                                    actual: tVal
-                                });
-                            }
-
-                            // Check Codebook
-                            if (cfg.codebookId) {
-                                const allowed = getCodebookValues(cfg.codebookId);
-                                if (!allowed.has(tVal) && tVal !== '') {
-                                    results.push({
-                                        key,
-                                        type: 'codebook_violation',
-                                        column: sourceColInfo.find(c => c.id === cfg.sourceId)?.column_name,
-                                        message: `Value '${tVal}' not found in codebook`,
-                                        actual: tVal
-                                    });
-                                }
-                            }
-                        }
-                    }
-                }
-            }
+// 10. Download Report of a Run (xlsx | csv | html | json | junit), CSV accepts ?delimiter=;
+app.get('/api/runs/:runId/report/:format', async (req, res) => {
+    const format = req.params.format as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Unknown report format '${format}'` });
+    }
+
+    try {
+        const ctx = loadReportContext(req.params.runId);
+        if (!ctx) return res.status(404).json({ error: 'Run not found' });
+
+        res.attachment(reportFilename(ctx, format));
+        if (format === 'xlsx') {
+            res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            res.send(buildXlsxReport(ctx));
+        } else if (format === 'csv') {
+            res.type('text/csv; charset=utf-8');
+            await writeCsvReport(ctx, res, req.query.delimiter === ';' ? ';' : ',');
+        } else if (format === 'json') {
+            res.type('application/json; charset=utf-8');
+            await writeJsonReport(ctx, res);
+        } else if (format === 'junit') {
+            res.type('application/xml; charset=utf-8');
+            await writeJUnitReport(ctx, res);
+        } else {
+            res.type('text/html; charset=utf-8');
+            await writeHtmlReport(ctx, res);
         }
+    } catch (error) {
+        console.error(error);
+        if (res.headersSent) return res.end();
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // 2. Check Extra in Target (optional)
-        for (const [key] of targetMap) {
-            if (!sourceMap.has(key)) {
-                results.push({
-                    key,
-                    type: 'extra_row',
-                    message: `Row with Key ${key} extra in Target file`
-                });
-            }
+// 10b. Download the Target file of a Run with problem cells highlighted and commented
+app.get('/api/runs/:runId/annotated-target', (req, res) => {
+    try {
+        const ctx = loadReportContext(req.params.runId);
+        if (!ctx) return res.status(404).json({ error: 'Run not found' });
+
+        const buffer = buildAnnotatedTarget(ctx);
+        res.attachment(annotatedTargetFilename(ctx));
+        res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.send(buffer);
+    } catch (error) {
+        if (error instanceof AnnotationError) return res.status(404).json({ error: error.message });
+        console.error(error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+app.delete('/api/runs/:runId', (req, res) => {
+    try {
+        if (!deleteRun(req.params.runId)) return res.status(404).json({ error: 'Run not found' });
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// 11. Mapping Templates (mappings reused across projects, keyed by column names)
+app.get('/api/templates', (req, res) => {
+    try {
+        res.json(listTemplates());
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Saves the stored mapping of a project as a template: { name, description?, projectId, replace? }
+app.post('/api/templates', (req, res) => {
+    const { name, description, projectId, replace } = req.body;
+    if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Template name is required' });
+    }
+
+    try {
+        const templateId = saveTemplate(name.trim(), description || null, templateFromProject(projectId), !!replace);
+        res.json(getTemplate(templateId));
+    } catch (error) {
+        if (error instanceof TemplateError) {
+            return res.status(400).json({ error: error.message });
         }
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        // Save results to DB (validation_results) 
-        // For MVP, just returning JSON
+// Imports an exported template file (its JSON as the body), ?replace=1 overwrites a template of the same name
+app.post('/api/templates/import', (req, res) => {
+    let template: ReturnType<typeof parseTemplateFile>;
+    try {
+        template = parseTemplateFile(req.body);
+    } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+    }
 
-        // Log last run
-        const deleteRes = db.prepare('DELETE FROM validation_results WHERE project_id = ?');
-        const insertRes = db.prepare('INSERT INTO validation_results (project_id, column_mapping_id, error_message, actual_value, expected_value) VALUES (?, ?, ?, ?, ?)');
+    try {
+        const templateId = saveTemplate(template.name, template.description, template.definition, req.query.replace === '1');
+        res.json(getTemplate(templateId));
+    } catch (error) {
+        if (error instanceof TemplateError) {
+            return res.status(409).json({ error: error.message });
+        }
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        db.transaction(() => {
-            deleteRes.run(projectId);
-            for (const r of results) {
-                // We'll simplify the schema usage here slightly for speed
-                insertRes.run(projectId, null, `${r.type}: ${r.message || ''} (Key: ${r.key})`, r.actual || '', r.expected || '');
-            }
-        })();
+app.get('/api/templates/:templateId/export', (req, res) => {
+    try {
+        const template = getTemplate(req.params.templateId);
+        if (!template) return res.status(404).json({ error: 'Template not found' });
+        res.attachment(`${template.name.replace(/[^\w.-]+/g, '_')}.template.json`);
+        res.json(exportTemplate(template));
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
-        res.json({ success: true, issuesCount: results.length, limit: 100, issues: results.slice(0, 100) });
+app.delete('/api/templates/:templateId', (req, res) => {
+    try {
+        const info = db.prepare('DELETE FROM mapping_templates WHERE id = ?').run(req.params.templateId);
+        if (info.changes === 0) return res.status(404).json({ error: 'Template not found' });
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
 
+// Replaces the project's mappings with a template's: { templateId, dryRun? }.
+// Reports template columns found and missing in the files and file columns the template does not know.
+app.post('/api/projects/:id/apply-template', (req, res) => {
+    try {
+        const template = getTemplate(req.body.templateId);
+        if (!template) return res.status(404).json({ error: 'Template not found' });
+        res.json(applyTemplate(req.params.id, template.definition, !!req.body.dryRun));
     } catch (error) {
-        console.error(error);
+        if (error instanceof TemplateError) {
+            return res.status(400).json({ error: error.message });
+        }
         res.status(500).json({ error: (error as Error).message });
     }
 });
@@ -0,0 +1,120 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import db, { type JobRow } from './database.ts';
+import type { ValidationProgress } from './validator.ts';
+
+// Validations run as background jobs in worker threads, so that large files do
+// not block the server. Job status and progress are kept in validation_jobs.
+
+export const ACTIVE_STATUSES = ['running', 'cancelling'];
+
+// Reading both files is most of the work, comparing the rest
+const READ_SHARE = 80;
+
+// Progress is written at most this often (ms)
+const PROGRESS_INTERVAL = 500;
+
+// The worker is loaded with the extension of this file: .ts in development, .js when built
+const WORKER_URL = new URL(`./validationWorker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+const workers = new Map<number, Worker>();
+
+// What a worker reports back (validationWorker.ts)
+export type WorkerMessage =
+    | { type: 'progress'; progress: ValidationProgress }
+    | { type: 'completed'; runId: number }
+    | { type: 'cancelled' }
+    | { type: 'failed'; error: string };
+
+// Thrown when a project already has a validation in progress
+export class JobConflictError extends Error {
+    constructor(public job: JobRow) {
+        super(`Validation #${job.id} of this project is still running`);
+    }
+}
+
+export function getJob(jobId: number | string) {
+    return db.prepare('SELECT * FROM validation_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+}
+
+export function listJobs(projectId: number | string, limit = 20) {
+    return db.prepare('SELECT * FROM validation_jobs WHERE project_id = ? ORDER BY id DESC LIMIT ?').all(projectId, limit) as JobRow[];
+}
+
+function percentOf(p: ValidationProgress) {
+    const fraction = p.rowsTotal > 0 ? Math.min(p.rowsProcessed / p.rowsTotal, 1) : 0;
+    if (p.phase === 'compare') return Math.round(READ_SHARE + fraction * (100 - READ_SHARE));
+    // The source is read before the target, each gets half of the reading share
+    const half = READ_SHARE / 2;
+    return Math.round(p.phase === 'source' ? fraction * half : half + fraction * half);
+}
+
+const finishJob = (jobId: number, status: string, fields: { run_id?: number; error?: string } = {}) => {
+    db.prepare(`
+        UPDATE validation_jobs SET status = ?, run_id = ?, error = ?, progress = CASE WHEN ? = 'completed' THEN 100 ELSE progress END,
+               finished_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+    `).run(status, fields.run_id ?? null, fields.error ?? null, status, jobId);
+};
+
+export function startValidationJob(projectId: number | string) {
+    const active = db.prepare(`SELECT * FROM validation_jobs WHERE project_id = ? AND status IN (${ACTIVE_STATUSES.map(() => '?').join(', ')})`)
+        .get(projectId, ...ACTIVE_STATUSES) as JobRow | undefined;
+    if (active) throw new JobConflictError(active);
+
+    const jobId = Number(db.prepare("INSERT INTO validation_jobs (project_id, status) VALUES (?, 'running')").run(projectId).lastInsertRowid);
+
+    const worker = new Worker(WORKER_URL, { workerData: { projectId: Number(projectId) } });
+    workers.set(jobId, worker);
+
+    const updateProgress = db.prepare('UPDATE validation_jobs SET phase = ?, rows_processed = ?, rows_total = ?, progress = ? WHERE id = ?');
+    let lastWrite = 0;
+
+    worker.on('message', (message: WorkerMessage) => {
+        if (message.type === 'progress') {
+            const now = Date.now();
+            if (now - lastWrite < PROGRESS_INTERVAL) return;
+            lastWrite = now;
+            const p = message.progress;
+            updateProgress.run(p.phase, p.rowsProcessed, p.rowsTotal, percentOf(p), jobId);
+        } else if (message.type === 'completed') {
+            finishJob(jobId, 'completed', { run_id: message.runId });
+        } else if (message.type === 'cancelled') {
+            finishJob(jobId, 'cancelled');
+        } else if (message.type === 'failed') {
+            finishJob(jobId, 'failed', { error: message.error });
+        }
+    });
+    worker.on('error', error => {
+        console.error(error);
+        finishJob(jobId, 'failed', { error: error.message });
+    });
+    worker.on('exit', () => {
+        workers.delete(jobId);
+        // A worker that ended without reporting back has crashed
+        if (ACTIVE_STATUSES.includes(getJob(jobId)?.status)) {
+            finishJob(jobId, 'failed', { error: 'Validation stopped unexpectedly' });
+        }
+    });
+
+    return getJob(jobId);
+}
+
+// Asks the worker to stop; the job becomes 'cancelled' once it has
+export function cancelJob(jobId: number | string) {
+    const worker = workers.get(Number(jobId));
+    if (worker) {
+        db.prepare("UPDATE validation_jobs SET status = 'cancelling' WHERE id = ? AND status = 'running'").run(jobId);
+        worker.postMessage({ type: 'cancel' });
+    }
+    return getJob(jobId);
+}
+
+// Jobs that were running when the server stopped will never finish
+export function recoverJobs() {
+    db.prepare(`
+        UPDATE validation_jobs SET status = 'failed', error = 'Interrupted by a server restart', finished_at = CURRENT_TIMESTAMP
+        WHERE status IN (${ACTIVE_STATUSES.map(() => '?').join(', ')})
+    `).run(...ACTIVE_STATUSES);
+}
@@ -0,0 +1,135 @@
+import { parseNumber, parseDate } from './compare.ts';
+import type { SheetTable } from './sheets.ts';
+
+// Column profiles computed when a file's columns are stored (file_columns.profile):
+// what the values of each column look like, to help pick keys and spot broken exports.
+
+export type ProfileType = 'empty' | 'integer' | 'number' | 'date' | 'text';
+
+export interface ValueCount {
+    value: string;
+    count: number;
+}
+
+export interface ColumnProfile {
+    type: ProfileType;
+    rows: number;
+    empty: number;            // empty or whitespace only
+    distinct: number;         // of the non-empty values
+    distinctCapped: boolean;  // more values than were tracked, distinct is a lower bound
+    unique: boolean;          // no non-empty value repeats (exact, whatever the cap)
+    min: string | null;       // by the column's type: numbers, dates (YYYY-MM-DD) or text
+    max: string | null;
+    maxLength: number;
+    top: ValueCount[];        // most frequent values
+    patterns: ValueCount[];   // most frequent shapes, letters as 'A' and digits as '9'
+}
+
+// Most frequent values and patterns kept per column
+export const PROFILE_TOP_N = 5;
+// Distinct values counted per column; the rest of a very varied column is not tracked
+const MAX_TRACKED_VALUES = 10000;
+const MAX_TRACKED_PATTERNS = 1000;
+const MAX_PATTERN_LENGTH = 24;
+// A type holds when this share of the non-empty values has it
+const TYPE_SHARE = 0.9;
+
+// "AB-1234" -> "AA-9999"
+export const valuePattern = (value: string) => {
+    const pattern = value.replace(/\p{L}/gu, 'A').replace(/\p{N}/gu, '9');
+    return pattern.length > MAX_PATTERN_LENGTH ? pattern.slice(0, MAX_PATTERN_LENGTH) + '…' : pattern;
+};
+
+const count = (counts: Map<string, number>, key: string, limit: number) => {
+    const current = counts.get(key);
+    if (current !== undefined) counts.set(key, current + 1);
+    else if (counts.size < limit) counts.set(key, 1);
+    else return false;
+    return true;
+};
+
+const topOf = (counts: Map<string, number>) => [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PROFILE_TOP_N)
+    .map(([value, n]) => ({ value, count: n }));
+
+class ColumnProfiler {
+    rows = 0;
+    empty = 0;
+    maxLength = 0;
+    numbers = 0;
+    integers = 0;
+    dates = 0;
+    capped = false;
+    values = new Map<string, number>();
+    // Every value while none repeats; dropped at the first repeat
+    seen: Set<string> | null = new Set<string>();
+    patterns = new Map<string, number>();
+    numberRange: [number, number] | null = null;
+    dateRange: [string, string] | null = null;
+    textRange: [string, string] | null = null;
+
+    add(raw: unknown) {
+        this.rows++;
+        const value = String(raw ?? '').trim();
+        if (value === '') {
+            this.empty++;
+            return;
+        }
+        this.maxLength = Math.max(this.maxLength, value.length);
+        if (!count(this.values, value, MAX_TRACKED_VALUES)) this.capped = true;
+        if (this.seen?.has(value)) this.seen = null;
+        else this.seen?.add(value);
+        count(this.patterns, valuePattern(value), MAX_TRACKED_PATTERNS);
+
+        const num = parseNumber(value);
+        if (num !== null) {
+            this.numbers++;
+            if (Number.isInteger(num)) this.integers++;
+            this.numberRange = this.numberRange ? [Math.min(this.numberRange[0], num), Math.max(this.numberRange[1], num)] : [num, num];
+        }
+        const date = parseDate(value);
+        if (date !== null) {
+            this.dates++;
+            this.dateRange = this.dateRange ? [date < this.dateRange[0] ? date : this.dateRange[0], date > this.dateRange[1] ? date : this.dateRange[1]] : [date, date];
+        }
+        this.textRange = this.textRange ? [value < this.textRange[0] ? value : this.textRange[0], value > this.textRange[1] ? value : this.textRange[1]] : [value, value];
+    }
+
+    result(): ColumnProfile {
+        const filled = this.rows - this.empty;
+        const holds = (n: number) => filled > 0 && n / filled >= TYPE_SHARE;
+        // Numbers first: plain numbers also pass as Excel date serials
+        const type: ProfileType = filled === 0 ? 'empty'
+            : holds(this.integers) ? 'integer'
+                : holds(this.numbers) ? 'number'
+                    : holds(this.dates) ? 'date'
+                        : 'text';
+        const range = type === 'integer' || type === 'number' ? this.numberRange?.map(String)
+            : type === 'date' ? this.dateRange
+                : this.textRange;
+
+        return {
+            type,
+            rows: this.rows,
+            empty: this.empty,
+            distinct: this.values.size,
+            distinctCapped: this.capped,
+            unique: this.seen !== null,
+            min: range?.[0] ?? null,
+            max: range?.[1] ?? null,
+            maxLength: this.maxLength,
+            top: topOf(this.values),
+            patterns: topOf(this.patterns)
+        };
+    }
+}
+
+// Profiles of all columns of a table, in the order of its headers
+export function profileTable(table: SheetTable): ColumnProfile[] {
+    const profilers = table.headers.map(() => new ColumnProfiler());
+    for (const row of table.rows) {
+        profilers.forEach((p, idx) => p.add(row[idx]));
+    }
+    return profilers.map(p => p.result());
+}
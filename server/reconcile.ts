@@ -0,0 +1,180 @@
+import { parseNumber, normalizeValue, type ComparisonConfig } from './compare.ts';
+import { SEVERITIES, type Severity } from './rules.ts';
+import type { SheetRow } from './sheets.ts';
+
+// Aggregate reconciliation (validation_projects.settings.reconciliation): row counts and
+// SUM/AVG/MIN/MAX of mapped columns over the whole file or per value of a grouping
+// column, e.g. totals per cost centre, compared between source and target within a
+// tolerance. Checks run on the rows kept by the row filters; every check is reported
+// in the run's reconciliation section, failed ones also as issues.
+
+export const AGGREGATE_MEASURES = ['count', 'sum', 'avg', 'min', 'max'] as const;
+
+export type AggregateMeasure = typeof AGGREGATE_MEASURES[number];
+
+export interface AggregateCheck {
+    measure: AggregateMeasure;
+    column?: string;        // mapped column (source name, or target name of a derived mapping); not for count
+    groupBy?: string;       // mapped column whose values form the groups
+    absTolerance?: number;  // allowed absolute difference
+    relTolerance?: number;  // allowed relative difference (0.01 = 1 %)
+    severity?: Severity;    // of a failed check, default 'error'
+}
+
+export interface ReconciliationResult {
+    measure: AggregateMeasure;
+    column?: string;
+    groupBy?: string;
+    group?: string;          // value of the grouping column
+    source: number | null;   // null when there is nothing to aggregate (avg/min/max of no values)
+    target: number | null;
+    difference: number | null;
+    skipped: number;         // non-empty values of either file that are not numbers
+    passed: boolean;
+    severity: Severity;
+}
+
+// Column of both files a check reads, resolved by the validator
+export interface ReconciledColumn {
+    source: (row: SheetRow) => string;
+    target: (row: SheetRow) => string;
+    comparison: ComparisonConfig;
+}
+
+// Thrown when a check names a column that is not mapped or groups into too many values
+export class ReconciliationError extends Error { }
+
+// Grouping by a (nearly) unique column would keep every row in memory
+export const MAX_RECONCILIATION_GROUPS = 10000;
+
+// Returns an error message for invalid checks, null when they are ok
+export function checkReconciliation(checks: Partial<AggregateCheck>[] | null): string | null {
+    if (!Array.isArray(checks)) return 'Reconciliation checks must be a list';
+    for (const check of checks) {
+        if (!check || typeof check !== 'object') return 'Every reconciliation check must be an object';
+        if (!AGGREGATE_MEASURES.includes(check.measure)) return `Unknown measure '${check.measure}'`;
+        if (check.measure !== 'count' && (typeof check.column !== 'string' || !check.column)) return `${check.measure.toUpperCase()} needs a column`;
+        if (check.column !== undefined && typeof check.column !== 'string') return 'Column must be a column name';
+        if (check.groupBy !== undefined && (typeof check.groupBy !== 'string' || !check.groupBy)) return 'Group by must be a column name';
+        if (check.absTolerance !== undefined && !(check.absTolerance >= 0)) return 'Absolute tolerance must be a non-negative number';
+        if (check.relTolerance !== undefined && !(check.relTolerance >= 0)) return 'Relative tolerance must be a non-negative number';
+        if (check.severity !== undefined && !SEVERITIES.includes(check.severity)) return `Unknown severity '${check.severity}'`;
+    }
+    return null;
+}
+
+// Label of a check, e.g. 'SUM of Amount per Region'
+export function describeCheck(check: { measure: AggregateMeasure; column?: string; groupBy?: string }) {
+    const what = check.measure === 'count' ? 'Row count' : `${check.measure.toUpperCase()} of ${check.column}`;
+    return check.groupBy ? `${what} per ${check.groupBy}` : what;
+}
+
+interface Totals {
+    rows: number;
+    values: number;
+    sum: number;
+    min: number;
+    max: number;
+    skipped: number;
+}
+
+const emptyTotals = (): Totals => ({ rows: 0, values: 0, sum: 0, min: Infinity, max: -Infinity, skipped: 0 });
+
+function measureOf(totals: Totals | undefined, measure: AggregateMeasure): number | null {
+    const t = totals || emptyTotals();
+    switch (measure) {
+        case 'count': return t.rows;
+        case 'sum': return t.sum;
+        case 'avg': return t.values ? t.sum / t.values : null;
+        case 'min': return t.values ? t.min : null;
+        case 'max': return t.values ? t.max : null;
+    }
+}
+
+// Sums of decimal amounts pick up floating point noise ('0.30000000000000004')
+const tidy = (n: number | null) => n === null ? null : Number(n.toFixed(10));
+
+// Same tolerance rules as the number comparison of single values
+function withinTolerance(a: number, b: number, check: AggregateCheck) {
+    const diff = Math.abs(a - b);
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    return diff <= (check.absTolerance || 0) || diff <= scale * Math.max(check.relTolerance || 0, 1e-12);
+}
+
+// Accumulates the checks over the rows of both files, row by row, so that the
+// files never have to be held in memory
+export function createReconciliation(checks: AggregateCheck[], resolve: (column: string) => ReconciledColumn | undefined) {
+    const compiled = checks.map(check => {
+        const columnOf = (name: string) => {
+            const column = resolve(name);
+            if (!column) throw new ReconciliationError(`Reconciliation column '${name}' is not mapped`);
+            return column;
+        };
+        return {
+            check,
+            value: check.measure === 'count' ? null : columnOf(check.column!),
+            group: check.groupBy ? columnOf(check.groupBy) : null,
+            // Totals per group (normalized value), with the group's value as first seen
+            totals: { source: new Map<string, Totals>(), target: new Map<string, Totals>() },
+            labels: new Map<string, string>()
+        };
+    });
+
+    const add = (side: 'source' | 'target', row: SheetRow) => {
+        for (const c of compiled) {
+            let groupKey = '';
+            if (c.group) {
+                const label = c.group[side](row);
+                groupKey = normalizeValue(label, c.group.comparison);
+                if (!c.labels.has(groupKey)) {
+                    if (c.labels.size >= MAX_RECONCILIATION_GROUPS) {
+                        throw new ReconciliationError(`${describeCheck(c.check)} has more than ${MAX_RECONCILIATION_GROUPS} groups`);
+                    }
+                    c.labels.set(groupKey, label);
+                }
+            }
+
+            const byGroup = c.totals[side];
+            if (!byGroup.has(groupKey)) byGroup.set(groupKey, emptyTotals());
+            const totals = byGroup.get(groupKey)!;
+            totals.rows++;
+            if (!c.value) continue;
+
+            const raw = c.value[side](row);
+            if (raw === '') continue;
+            const n = parseNumber(raw);
+            if (n === null) {
+                totals.skipped++;
+                continue;
+            }
+            totals.values++;
+            totals.sum += n;
+            totals.min = Math.min(totals.min, n);
+            totals.max = Math.max(totals.max, n);
+        }
+    };
+
+    const results = (): ReconciliationResult[] => compiled.flatMap(({ check, group, totals, labels }) => {
+        const groupKeys = group ? [...labels.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })) : [''];
+        return groupKeys.map(key => {
+            const s = totals.source.get(key), t = totals.target.get(key);
+            const source = tidy(measureOf(s, check.measure));
+            const target = tidy(measureOf(t, check.measure));
+            const difference = source !== null && target !== null ? tidy(target - source) : null;
+            return {
+                measure: check.measure,
+                column: check.column,
+                groupBy: check.groupBy,
+                group: group ? labels.get(key) : undefined,
+                source,
+                target,
+                difference,
+                skipped: (s?.skipped || 0) + (t?.skipped || 0),
+                passed: source === null || target === null ? source === target : withinTolerance(source, target, check),
+                severity: check.severity || 'error'
+            };
+        });
+    });
+
+    return { add, results };
+}
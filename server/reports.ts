@@ -0,0 +1,340 @@
+import type { Writable } from 'stream';
+import * as XLSX from 'xlsx';
+import db, { type IssueRow, type ProjectRow, type WaiverRow } from './database.ts';
+import { getRun, toIssue } from './runs.ts';
+import { listWaivers } from './waivers.ts';
+import { describeCheck, type ReconciliationResult } from './reconcile.ts';
+
+// Downloadable reports of a stored validation run (XLSX, CSV, HTML, JSON, JUnit XML)
+
+export const REPORT_FORMATS = ['xlsx', 'csv', 'html', 'json', 'junit'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+const EXTENSIONS: Record<ReportFormat, string> = { xlsx: 'xlsx', csv: 'csv', html: 'html', json: 'json', junit: 'xml' };
+
+type StoredIssue = ReturnType<typeof toIssue>;
+
+// Waivers of the project by id, for the reason an issue was accepted
+type Waivers = Map<number, WaiverRow>;
+
+const waiverNote = (waiver: WaiverRow | undefined) => waiver ? `${waiver.reason} (${waiver.author})` : undefined;
+
+const ISSUE_COLUMNS = [
+    { header: 'Type', value: (i: StoredIssue) => i.type },
+    { header: 'Severity', value: (i: StoredIssue) => i.severity },
+    { header: 'Key', value: (i: StoredIssue) => i.key },
+    { header: 'Column', value: (i: StoredIssue) => i.column },
+    { header: 'Expected', value: (i: StoredIssue) => i.expected },
+    { header: 'Actual', value: (i: StoredIssue) => i.actual },
+    { header: 'Message', value: (i: StoredIssue) => i.message },
+    { header: 'Source Row', value: (i: StoredIssue) => i.sourceRow },
+    { header: 'Target Row', value: (i: StoredIssue) => i.targetRow },
+    { header: 'Waived', value: (i: StoredIssue, waivers: Waivers) => waiverNote(waivers.get(i.waiverId!)) },
+];
+
+export function loadReportContext(runId: number | string) {
+    const run = getRun(runId);
+    if (!run) return null;
+    const project = db.prepare('SELECT * FROM validation_projects WHERE id = ?').get(run.project_id) as ProjectRow;
+    const waivers: Waivers = new Map(listWaivers(run.project_id).map(w => [w.id, w]));
+    return { run, project, waivers };
+}
+
+export type ReportContext = NonNullable<ReturnType<typeof loadReportContext>>;
+
+// Issues are read in batches instead of through one open query: a writer waiting for its
+// stream to drain would keep the connection busy for every other request. Stops early
+// when the stream is closed (the download was cancelled).
+const ISSUE_BATCH_SIZE = 1000;
+
+function* issueRows(runId: number, out?: Writable, issueType?: string): Generator<IssueRow> {
+    const batch = db.prepare(`
+        SELECT * FROM validation_issues
+        WHERE run_id = ? AND (? IS NULL OR issue_type = ?) AND id > ?
+        ORDER BY id LIMIT ?
+    `);
+    for (let lastId = 0; !out?.destroyed;) {
+        const rows = batch.all(runId, issueType ?? null, issueType ?? null, lastId, ISSUE_BATCH_SIZE) as IssueRow[];
+        yield* rows;
+        if (rows.length < ISSUE_BATCH_SIZE) return;
+        lastId = rows[rows.length - 1].id;
+    }
+}
+
+// Writes a chunk and waits for the stream to drain when its buffer is full, so that a
+// slow reader does not make the report pile up in memory
+async function write(out: Writable, chunk: string) {
+    if (out.destroyed || out.write(chunk)) return;
+    await new Promise<void>(resolve => {
+        const done = () => {
+            out.off('drain', done);
+            out.off('close', done);
+            resolve();
+        };
+        out.on('drain', done);
+        out.on('close', done);
+    });
+}
+
+export function reportFilename(ctx: ReportContext, format: ReportFormat) {
+    const safeName = String(ctx.project?.name || 'project').replace(/[^\w-]+/g, '_');
+    return `validation_${safeName}_run${ctx.run.id}.${EXTENSIONS[format]}`;
+}
+
+// Key/value lines describing the run, shared by all formats
+function metadata(ctx: ReportContext): [string, string][] {
+    const { run, project } = ctx;
+    return [
+        ['Project', project?.name ?? ''],
+        ['Run', `#${run.id}`],
+        ['Run Timestamp', run.created_at],
+        ['Source File', run.source_filename ?? ''],
+        ['Target File', run.target_filename ?? ''],
+        ['Key Columns', run.key_columns.join(' + ')],
+        ['Total Issues', String(run.issues_count)],
+        ['Open Issues', String(run.issues_count - (run.waived_count || 0))],
+        ['Waived Issues', String(run.waived_count || 0)],
+        ...Object.entries(run.severity_counts).map(([severity, count]) => [`Open ${severity}`, String(count)] as [string, string]),
+        ...Object.entries(run.issue_counts).map(([type, count]) => [`Type: ${type}`, String(count)] as [string, string]),
+    ];
+}
+
+// One line per mapping, e.g. ['Amount', 'Castka', '', 'number ±0.01', 'max_value 100 (warning)']
+function mappingRows(ctx: ReportContext): string[][] {
+    return (ctx.run.mapping_snapshot || []).map(m => {
+        const cmp = m.comparison || { mode: 'text' };
+        const tolerance = [cmp.absTolerance !== undefined && `±${cmp.absTolerance}`, cmp.relTolerance !== undefined && `±${cmp.relTolerance * 100} %`].filter(Boolean).join(' ');
+        return [
+            m.sourceColumn ?? (m.expression ? `= ${m.expression}` : ''),
+            m.targetColumn ?? '',
+            m.isKey ? 'yes' : '',
+            [cmp.mode, tolerance, (cmp.dateFormats || []).join(', ')].filter(Boolean).join(' '),
+            (m.rules || []).map(r => `${r.rule_type}${r.parameter ? ` ${r.parameter}` : ''} (${r.severity})`).join('; ')
+        ];
+    });
+}
+
+const MAPPING_HEADER = ['Source Column', 'Target Column', 'Key', 'Compare As', 'Rules'];
+
+// One line per aggregate check (and group), e.g. ['SUM of Amount per Region', 'North', '150', '140', '-10', 'failed (error)']
+function reconciliationRows(ctx: ReportContext): string[][] {
+    return (ctx.run.reconciliation || []).map((r: ReconciliationResult) => [
+        describeCheck(r),
+        r.group ?? '',
+        r.source === null ? '' : String(r.source),
+        r.target === null ? '' : String(r.target),
+        r.difference === null ? '' : String(r.difference),
+        r.passed ? 'passed' : `failed (${r.severity})`
+    ]);
+}
+
+const RECONCILIATION_HEADER = ['Check', 'Group', 'Source', 'Target', 'Difference', 'Result'];
+
+// Excel limits sheet names to 31 characters without []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31);
+
+export function buildXlsxReport(ctx: ReportContext): Buffer {
+    const wb = XLSX.utils.book_new();
+
+    const summary: unknown[][] = [
+        ...metadata(ctx),
+        [],
+        ['Mapping Configuration'],
+        MAPPING_HEADER,
+        ...mappingRows(ctx),
+    ];
+    const reconciliation = reconciliationRows(ctx);
+    if (reconciliation.length > 0) summary.push([], ['Reconciliation'], RECONCILIATION_HEADER, ...reconciliation);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), 'Summary');
+
+    const byType = new Map<string, unknown[][]>();
+    for (const row of issueRows(ctx.run.id)) {
+        const issue = toIssue(row);
+        if (!byType.has(issue.type)) byType.set(issue.type, [ISSUE_COLUMNS.map(c => c.header)]);
+        byType.get(issue.type)!.push(ISSUE_COLUMNS.map(c => c.value(issue, ctx.waivers) ?? ''));
+    }
+    for (const [type, rows] of byType) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), sheetName(type));
+    }
+
+    return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
+
+// Cells starting like a formula are prefixed with ', so that Excel never runs values
+// copied from the uploaded files; numbers such as -10.5 are left as they are
+const csvField = (value: unknown, delimiter: string) => {
+    let s = value === undefined || value === null ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(s) && !/^[+-]?(\d+([.,]\d+)*|[.,]\d+)(e[+-]?\d+)?$/i.test(s)) s = `'${s}`;
+    return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// Sections for the run, its mappings and reconciliation, then the issues, each under a
+// title row and its own header row. The issues come last as a plain table, so that
+// importers can start reading at the 'Issues' row.
+// Written row by row, so large runs are never held in memory as a whole.
+export async function writeCsvReport(ctx: ReportContext, out: Writable, delimiter = ',') {
+    const line = (fields: unknown[]) => write(out, fields.map(f => csvField(f, delimiter)).join(delimiter) + '\r\n');
+    const section = async (title: string, header: string[], rows: unknown[][]) => {
+        await line([title]);
+        await line(header);
+        for (const row of rows) await line(row);
+        await write(out, '\r\n');
+    };
+
+    await write(out, '\uFEFF'); // BOM, so that Excel reads the file as UTF-8
+    await section('Run', ['Field', 'Value'], metadata(ctx));
+    await section('Mapping Configuration', MAPPING_HEADER, mappingRows(ctx));
+    const reconciliation = reconciliationRows(ctx);
+    if (reconciliation.length > 0) await section('Reconciliation', RECONCILIATION_HEADER, reconciliation);
+
+    await line(['Issues']);
+    await line(ISSUE_COLUMNS.map(c => c.header));
+    for (const row of issueRows(ctx.run.id, out)) {
+        const issue = toIssue(row);
+        await line(ISSUE_COLUMNS.map(c => c.value(issue, ctx.waivers)));
+    }
+    out.end();
+}
+
+const escapeHtml = (value: unknown) => (value === undefined || value === null ? '' : String(value))
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLE = `
+body { font-family: system-ui, Arial, sans-serif; margin: 2rem; color: #333; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.9em; }
+th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #eee; }
+.meta th { width: 200px; }
+.error { color: #721c24; } .warning { color: #856404; } .info { color: #0c5460; } .waived { color: #888; }
+`;
+
+// Self-contained HTML (inline styles, no external assets), streamed issue by issue
+export async function writeHtmlReport(ctx: ReportContext, out: Writable) {
+    const title = `Validation Report – ${escapeHtml(ctx.project?.name)} – Run #${ctx.run.id}`;
+    await write(out, `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>${title}</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n`);
+    await write(out, `<h1>${title}</h1>\n`);
+
+    await write(out, '<table class="meta">\n');
+    for (const [name, value] of metadata(ctx)) await write(out, `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>\n`);
+    await write(out, '</table>\n');
+
+    await write(out, '<h2>Mapping Configuration</h2>\n<table>\n');
+    await write(out, `<tr>${MAPPING_HEADER.map(h => `<th>${h}</th>`).join('')}</tr>\n`);
+    for (const m of mappingRows(ctx)) await write(out, `<tr>${m.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>\n`);
+    await write(out, '</table>\n');
+
+    const reconciliation = reconciliationRows(ctx);
+    if (reconciliation.length > 0) {
+        await write(out, '<h2>Reconciliation</h2>\n<table>\n');
+        await write(out, `<tr>${RECONCILIATION_HEADER.map(h => `<th>${h}</th>`).join('')}</tr>\n`);
+        for (const r of reconciliation) await write(out, `<tr>${r.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>\n`);
+        await write(out, '</table>\n');
+    }
+
+    await write(out, '<h2>Issues</h2>\n<table>\n');
+    await write(out, `<tr>${ISSUE_COLUMNS.map(c => `<th>${c.header}</th>`).join('')}</tr>\n`);
+    for (const row of issueRows(ctx.run.id, out)) {
+        const issue = toIssue(row);
+        await write(out, `<tr class="${issue.waiverId ? 'waived' : escapeHtml(issue.severity)}">${ISSUE_COLUMNS.map(c => `<td>${escapeHtml(c.value(issue, ctx.waivers))}</td>`).join('')}</tr>\n`);
+    }
+    await write(out, '</table>\n</body>\n</html>\n');
+    out.end();
+}
+
+// The run with its mappings, reconciliation and waivers, followed by the issues one per line
+export async function writeJsonReport(ctx: ReportContext, out: Writable) {
+    const { run, project } = ctx;
+    const header = {
+        project: project?.name ?? null,
+        run: {
+            id: run.id,
+            createdAt: run.created_at,
+            sourceFile: run.source_filename,
+            targetFile: run.target_filename,
+            keyColumns: run.key_columns,
+            issues: run.issues_count,
+            waived: run.waived_count || 0,
+            issueCounts: run.issue_counts,
+            openSeverityCounts: run.severity_counts
+        },
+        mappings: run.mapping_snapshot || [],
+        reconciliation: run.reconciliation || [],
+        waivers: [...ctx.waivers.values()]
+    };
+
+    await write(out, '{\n');
+    for (const [name, value] of Object.entries(header)) await write(out, `  ${JSON.stringify(name)}: ${JSON.stringify(value)},\n`);
+    await write(out, '  "issues": [');
+    let first = true;
+    for (const row of issueRows(run.id, out)) {
+        await write(out, `${first ? '' : ','}\n    ${JSON.stringify(toIssue(row))}`);
+        first = false;
+    }
+    await write(out, '\n  ]\n}\n');
+    out.end();
+}
+
+const escapeXml = (value: unknown) => escapeHtml(value).replace(/'/g, '&apos;');
+
+// JUnit XML for CI servers: a test suite per issue type and one for the reconciliation.
+// Open errors are failures, waived issues are skipped, warnings and info pass with their
+// message as output.
+export async function writeJUnitReport(ctx: ReportContext, out: Writable) {
+    const { run, project } = ctx;
+    const suites = db.prepare(`
+        SELECT issue_type, COUNT(*) AS tests,
+               SUM(CASE WHEN waiver_id IS NULL AND severity = 'error' THEN 1 ELSE 0 END) AS failures,
+               SUM(CASE WHEN waiver_id IS NOT NULL THEN 1 ELSE 0 END) AS skipped
+        FROM validation_issues WHERE run_id = ? AND issue_type != 'aggregate_mismatch' GROUP BY issue_type ORDER BY MIN(id)
+    `).all(run.id) as { issue_type: string; tests: number; failures: number; skipped: number }[];
+
+    // Aggregate mismatches are reported as the reconciliation suite: the failed
+    // checks were stored as aggregate_mismatch issues in the same order, and
+    // carry their waivers
+    const reconciliation: ReconciliationResult[] = run.reconciliation || [];
+    const mismatches = [...issueRows(run.id, out, 'aggregate_mismatch')].map(toIssue);
+    let failed = 0;
+    const checks = reconciliation.map(r => ({ ...r, issue: r.passed ? undefined : mismatches[failed++] }));
+    const reconciliationFailures = checks.filter(r => !r.passed && !r.issue?.waiverId && r.severity === 'error').length;
+    const reconciliationSkipped = checks.filter(r => r.issue?.waiverId).length;
+
+    const total = suites.reduce((sum, s) => sum + s.tests, 0) + reconciliation.length;
+    const failures = suites.reduce((sum, s) => sum + s.failures, 0) + reconciliationFailures;
+    const skipped = suites.reduce((sum, s) => sum + s.skipped, 0) + reconciliationSkipped;
+    const testcase = (name: string, classname: string, body: string) =>
+        `    <testcase name="${escapeXml(name)}" classname="${escapeXml(classname)}"${body ? `>\n      ${body}\n    </testcase>` : ' />'}\n`;
+
+    await write(out, '<?xml version="1.0" encoding="UTF-8"?>\n');
+    await write(out, `<testsuites name="${escapeXml(`Validation ${project?.name ?? ''} run #${run.id}`)}" tests="${total}" failures="${failures}" skipped="${skipped}">\n`);
+
+    if (reconciliation.length > 0) {
+        await write(out, `  <testsuite name="reconciliation" tests="${reconciliation.length}" failures="${reconciliationFailures}" skipped="${reconciliationSkipped}">\n`);
+        for (const r of checks) {
+            const name = `${describeCheck(r)}${r.group !== undefined ? ` '${r.group}'` : ''}`;
+            const result = `source ${r.source ?? 'none'}, target ${r.target ?? 'none'}`;
+            await write(out, testcase(name, 'reconciliation', r.passed ? ''
+                : r.issue?.waiverId ? `<skipped message="${escapeXml(`waived: ${waiverNote(ctx.waivers.get(r.issue.waiverId)) ?? ''}`)}" />`
+                : r.severity === 'error' ? `<failure message="${escapeXml(result)}" type="aggregate_mismatch" />`
+                    : `<system-out>${escapeXml(`${r.severity}: ${result}`)}</system-out>`));
+        }
+        await write(out, '  </testsuite>\n');
+    }
+
+    for (const suite of suites) {
+        await write(out, `  <testsuite name="${escapeXml(suite.issue_type)}" tests="${suite.tests}" failures="${suite.failures}" skipped="${suite.skipped}">\n`);
+        for (const row of issueRows(run.id, out, suite.issue_type)) {
+            const issue = toIssue(row);
+            const name = [issue.key, issue.column].filter(Boolean).join(' / ') || issue.type;
+            const detail = issue.message || `expected '${issue.expected ?? ''}', actual '${issue.actual ?? ''}'`;
+            await write(out, testcase(name, issue.type, issue.waiverId
+                ? `<skipped message="${escapeXml(`waived: ${waiverNote(ctx.waivers.get(issue.waiverId)) ?? ''}`)}" />`
+                : issue.severity === 'error' ? `<failure message="${escapeXml(detail)}" type="${escapeXml(issue.type)}" />`
+                    : `<system-out>${escapeXml(`${issue.severity}: ${detail}`)}</system-out>`));
+        }
+        await write(out, '  </testsuite>\n');
+    }
+
+    await write(out, '</testsuites>\n');
+    out.end();
+}
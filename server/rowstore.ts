@@ -0,0 +1,83 @@
+import Database from 'better-sqlite3';
+import type { SheetRow } from './sheets.ts';
+
+// Keyed rows of both files spilled to a temporary SQLite database, so that the
+// validator never holds whole files in memory. Rows are read back sorted by key,
+// one key group at a time (a sorted-merge join of source and target).
+
+export type Side = 'source' | 'target';
+
+export interface KeyedRow {
+    row: SheetRow;
+    rowNumber: number; // 1-based sheet row
+}
+
+export interface KeyGroup {
+    key: string;
+    displayParts: string[];
+    source: KeyedRow[];
+    target: KeyedRow[];
+}
+
+const BATCH_SIZE = 5000;
+// Page cache of the temporary database, beyond it SQLite writes to a temp file
+const CACHE_KIB = 64 * 1024;
+
+export class KeyedRowStore {
+    private db: Database.Database;
+    private insert: Database.Statement;
+    private pending: [number, string, number, string, string][] = [];
+
+    constructor() {
+        // An empty filename is a private temporary database, removed on close
+        this.db = new Database('');
+        this.db.pragma('journal_mode = OFF');
+        this.db.pragma('synchronous = OFF');
+        this.db.pragma(`cache_size = -${CACHE_KIB}`);
+        this.db.exec(`
+            CREATE TABLE keyed_rows (
+                side INTEGER NOT NULL, -- 0 = source, 1 = target
+                row_key TEXT NOT NULL,
+                row_number INTEGER NOT NULL,
+                display_parts TEXT NOT NULL,
+                row_values TEXT NOT NULL
+            )
+        `);
+        this.insert = this.db.prepare('INSERT INTO keyed_rows (side, row_key, row_number, display_parts, row_values) VALUES (?, ?, ?, ?, ?)');
+    }
+
+    add(side: Side, key: string, displayParts: string[], keyed: KeyedRow) {
+        this.pending.push([side === 'source' ? 0 : 1, key, keyed.rowNumber, JSON.stringify(displayParts), JSON.stringify(keyed.row)]);
+        if (this.pending.length >= BATCH_SIZE) this.flush();
+    }
+
+    private flush() {
+        const rows = this.pending;
+        this.pending = [];
+        this.db.transaction(() => {
+            for (const r of rows) this.insert.run(...r);
+        })();
+    }
+
+    // Key groups in key order; within a group rows keep their file order
+    *groups(): Generator<KeyGroup> {
+        this.flush();
+        this.db.exec('CREATE INDEX idx_keyed_rows ON keyed_rows (row_key, side, row_number)');
+
+        let group: KeyGroup | null = null;
+        const rows = this.db.prepare('SELECT * FROM keyed_rows ORDER BY row_key, side, row_number').iterate() as IterableIterator<{ side: number; row_key: string; row_number: number; display_parts: string; row_values: string }>;
+        for (const r of rows) {
+            if (!group || group.key !== r.row_key) {
+                if (group) yield group;
+                // Keys are shown as written in the file where they were first seen
+                group = { key: r.row_key, displayParts: JSON.parse(r.display_parts), source: [], target: [] };
+            }
+            group[r.side === 0 ? 'source' : 'target'].push({ row: JSON.parse(r.row_values), rowNumber: r.row_number });
+        }
+        if (group) yield group;
+    }
+
+    close() {
+        this.db.close();
+    }
+}
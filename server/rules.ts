@@ -0,0 +1,166 @@
+import { parseNumber, parseDate } from './compare.ts';
+
+// Per-column validation rules (rows of the validation_rules table)
+
+export const RULE_TYPES = [
+    'exact_match',        // Target value must equal the mapped source value (severity of value_mismatch)
+    'exists_in_codebook', // parameter: codebook file id
+    'format_regex',       // parameter: regular expression the whole value must match
+    'not_empty',
+    'min_length',         // parameter: minimal number of characters
+    'max_length',         // parameter: maximal number of characters
+    'min_value',          // parameter: minimal numeric value
+    'max_value',          // parameter: maximal numeric value
+    'data_type',          // parameter: one of DATA_TYPES
+    'allowed_values',     // parameter: the allowed values separated by '|'
+    'unique',             // no two rows of the file share a value (column rules only)
+] as const;
+
+export type RuleType = typeof RULE_TYPES[number];
+
+export const DATA_TYPES = ['text', 'number', 'integer', 'date'] as const;
+
+export type DataType = typeof DATA_TYPES[number];
+
+// Rules that look at all rows of a file, not at a pair of values
+export const SINGLE_FILE_RULES: RuleType[] = ['unique'];
+
+export const SEVERITIES = ['error', 'warning', 'info'] as const;
+
+export type Severity = typeof SEVERITIES[number];
+
+export interface ValidationRule {
+    id?: number;
+    column_mapping_id?: number;
+    rule_type: RuleType;
+    parameter: string | null;
+    severity: Severity;
+}
+
+// Rule on a column of one file (rows of the column_rules table), independent of the mappings
+export interface ColumnRule extends ValidationRule {
+    project_id?: number;
+    file_type: 'source' | 'target';
+    column_name: string;
+}
+
+// Returns an error message for an invalid rule definition, null when it is ok
+export function checkRuleDefinition(rule: { rule_type?: string; parameter?: string | null; severity?: string }): string | null {
+    if (!RULE_TYPES.includes(rule.rule_type as RuleType)) {
+        return `Unknown rule type '${rule.rule_type}'`;
+    }
+    if (rule.severity && !SEVERITIES.includes(rule.severity as Severity)) {
+        return `Unknown severity '${rule.severity}'`;
+    }
+
+    const param = rule.parameter ?? '';
+    switch (rule.rule_type) {
+        case 'exists_in_codebook':
+            if (!/^\d+$/.test(param)) return 'Codebook rule needs a codebook file';
+            break;
+        case 'format_regex':
+            try { new RegExp(param); } catch (e) { return (e as Error).message; }
+            break;
+        case 'min_length':
+        case 'max_length':
+            if (!/^\d+$/.test(param)) return 'Length must be a whole number';
+            break;
+        case 'min_value':
+        case 'max_value':
+            if (parseNumber(param) === null) return 'Limit must be a number';
+            break;
+        case 'data_type':
+            if (!DATA_TYPES.includes(param as DataType)) return `Unknown data type '${param}'`;
+            break;
+        case 'allowed_values':
+            if (allowedValues(param).length === 0) return 'List the allowed values separated by |';
+            break;
+    }
+    return null;
+}
+
+// Returns an error message for an invalid rule of a column mapping, null when it is ok
+export function checkMappingRule(rule: { rule_type?: string; parameter?: string | null; severity?: string }): string | null {
+    if (SINGLE_FILE_RULES.includes(rule.rule_type as RuleType)) return `Rule '${rule.rule_type}' can only be used as a column rule`;
+    return checkRuleDefinition(rule);
+}
+
+// Returns an error message for an invalid column rule, null when it is ok
+export function checkColumnRule(rule: Partial<ColumnRule> | null): string | null {
+    if (!rule || (rule.file_type !== 'source' && rule.file_type !== 'target')) return 'Column rule must name the source or target file';
+    if (typeof rule.column_name !== 'string' || rule.column_name === '') return 'Column rule needs a column name';
+    // Comparing with the other file needs a mapping
+    if (rule.rule_type === 'exact_match') return 'Equals source can only be used on a mapped column';
+    return checkRuleDefinition(rule);
+}
+
+const allowedValues = (param: string) => param.split('|').map(v => v.trim()).filter(v => v !== '');
+
+const isOfType = (value: string, type: DataType) => {
+    switch (type) {
+        case 'number': return parseNumber(value) !== null;
+        case 'integer': return Number.isInteger(parseNumber(value));
+        case 'date': return parseDate(value) !== null;
+        default: return true;
+    }
+};
+
+const regexCache = new Map<string, RegExp>();
+const compileFormat = (pattern: string) => {
+    if (!regexCache.has(pattern)) regexCache.set(pattern, new RegExp(`^(?:${pattern})$`));
+    return regexCache.get(pattern)!;
+};
+
+export interface RuleContext {
+    // Allowed values of a codebook file
+    getCodebookValues: (codebookFileId: number) => Set<string>;
+}
+
+// Evaluates a single-value rule against a (trimmed) cell value.
+// Returns a message describing the violation, or null when the value passes.
+// 'exact_match' compares two files and 'unique' all rows of one, the validator handles them itself.
+export function evaluateRule(rule: ValidationRule, value: string, ctx: RuleContext): string | null {
+    const param = rule.parameter ?? '';
+
+    switch (rule.rule_type) {
+        case 'not_empty':
+            return value === '' ? 'Value is empty' : null;
+
+        case 'exists_in_codebook':
+            if (value === '') return null;
+            return ctx.getCodebookValues(Number(param)).has(value) ? null : `Value '${value}' not found in codebook`;
+
+        case 'format_regex':
+            if (value === '') return null;
+            return compileFormat(param).test(value) ? null : `Value '${value}' does not match format ${param}`;
+
+        case 'min_length':
+            if (value === '') return null;
+            return value.length < Number(param) ? `Value '${value}' is shorter than ${param} characters` : null;
+
+        case 'max_length':
+            return value.length > Number(param) ? `Value '${value}' is longer than ${param} characters` : null;
+
+        case 'min_value':
+        case 'max_value': {
+            if (value === '') return null;
+            const num = parseNumber(value);
+            if (num === null) return `Value '${value}' is not a number`;
+            const limit = parseNumber(param) ?? NaN;
+            if (rule.rule_type === 'min_value' && num < limit) return `Value ${value} is less than ${param}`;
+            if (rule.rule_type === 'max_value' && num > limit) return `Value ${value} is greater than ${param}`;
+            return null;
+        }
+
+        case 'data_type':
+            if (value === '') return null;
+            return isOfType(value, param as DataType) ? null : `Value '${value}' is not ${param === 'integer' ? 'an integer' : `a ${param}`}`;
+
+        case 'allowed_values':
+            if (value === '') return null;
+            return allowedValues(param).includes(value) ? null : `Value '${value}' is not one of the allowed values`;
+
+        default:
+            return null;
+    }
+}
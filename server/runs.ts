@@ -0,0 +1,210 @@
+import db, { type RunRow, type IssueRow } from './database.ts';
+import { applyWaivers } from './waivers.ts';
+import type { Issue, ValidationOutcome, MappingSnapshot } from './validator.ts';
+import type { ReconciliationResult } from './reconcile.ts';
+
+// Stored validation runs (validation_runs) and their issues (validation_issues)
+
+export function countBy(issues: Issue[], field: 'type' | 'severity') {
+    const counts: Record<string, number> = {};
+    for (const issue of issues) {
+        counts[issue[field]] = (counts[issue[field]] || 0) + 1;
+    }
+    return counts;
+}
+
+export function saveRun(projectId: number | string, outcome: ValidationOutcome): number {
+    const insertRun = db.prepare(`
+        INSERT INTO validation_runs (project_id, source_file_id, target_file_id, source_filename, target_filename,
+                                     key_columns, mapping_snapshot, issues_count, issue_counts, severity_counts, reconciliation)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertIssue = db.prepare(`
+        INSERT INTO validation_issues (run_id, issue_type, severity, rule_type, issue_key, key_parts, column_name,
+                                       expected_value, actual_value, message, source_row, target_row, row_numbers)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    return db.transaction(() => {
+        const { sourceFile, targetFile, issues } = outcome;
+        const severityCounts = { error: 0, warning: 0, info: 0, ...countBy(issues, 'severity') };
+
+        const runId = Number(insertRun.run(
+            projectId, sourceFile?.id ?? null, targetFile.id, sourceFile?.original_filename ?? null, targetFile.original_filename,
+            JSON.stringify(outcome.keyColumns), JSON.stringify(outcome.mappingSnapshot),
+            issues.length, JSON.stringify(countBy(issues, 'type')), JSON.stringify(severityCounts),
+            outcome.reconciliation ? JSON.stringify(outcome.reconciliation) : null
+        ).lastInsertRowid);
+
+        for (const i of issues) {
+            insertIssue.run(
+                runId, i.type, i.severity || 'error', i.rule ?? null, i.key, i.keyParts ? JSON.stringify(i.keyParts) : null,
+                i.column ?? null, i.expected ?? null, i.actual ?? null, i.message ?? null,
+                i.sourceRow ?? null, i.targetRow ?? null, i.rows ? JSON.stringify(i.rows) : null
+            );
+        }
+        // Known differences of earlier runs are accepted again
+        applyWaivers(runId);
+        return runId;
+    })();
+}
+
+// Run row with its JSON columns parsed; lists leave out the snapshot and reconciliation
+export interface Run extends Omit<RunRow, 'key_columns' | 'mapping_snapshot' | 'issue_counts' | 'severity_counts' | 'reconciliation'> {
+    key_columns: string[];
+    mapping_snapshot?: MappingSnapshot[];
+    issue_counts: Record<string, number>;
+    severity_counts: Record<string, number>;
+    reconciliation?: ReconciliationResult[];
+}
+
+export function parseRun(run: RunRow | undefined): Run | undefined {
+    if (!run) return undefined;
+    return {
+        ...run,
+        key_columns: JSON.parse(run.key_columns || '[]'),
+        mapping_snapshot: run.mapping_snapshot === undefined ? undefined : JSON.parse(run.mapping_snapshot || '[]'),
+        issue_counts: JSON.parse(run.issue_counts || '{}'),
+        severity_counts: JSON.parse(run.severity_counts || '{}'),
+        reconciliation: run.reconciliation === undefined ? undefined : JSON.parse(run.reconciliation || '[]')
+    };
+}
+
+export function listRuns(projectId: number | string) {
+    const runs = db.prepare(`
+        SELECT id, project_id, source_file_id, target_file_id, source_filename, target_filename,
+               key_columns, issues_count, issue_counts, severity_counts, waived_count, created_at
+        FROM validation_runs WHERE project_id = ? ORDER BY id DESC
+    `).all(projectId) as RunRow[];
+    return runs.map(parseRun);
+}
+
+export function getRun(runId: number | string) {
+    return parseRun(db.prepare('SELECT * FROM validation_runs WHERE id = ?').get(runId) as RunRow | undefined);
+}
+
+// Deletes a run with its issues. Foreign keys are not enforced (no PRAGMA
+// foreign_keys), so the schema's ON DELETE clauses are carried out here.
+export function deleteRun(runId: number | string): boolean {
+    return db.transaction(() => {
+        db.prepare('DELETE FROM validation_issues WHERE run_id = ?').run(runId);
+        db.prepare('UPDATE validation_jobs SET run_id = NULL WHERE run_id = ?').run(runId);
+        return db.prepare('DELETE FROM validation_runs WHERE id = ?').run(runId).changes > 0;
+    })();
+}
+
+// Issue row in the same shape as the validator produces it
+export function toIssue(row: IssueRow): Issue & { id: number; waiverId?: number } {
+    return {
+        id: row.id,
+        key: row.issue_key,
+        keyParts: row.key_parts ? JSON.parse(row.key_parts) : undefined,
+        type: row.issue_type,
+        severity: row.severity,
+        rule: row.rule_type ?? undefined,
+        message: row.message ?? undefined,
+        column: row.column_name ?? undefined,
+        expected: row.expected_value ?? undefined,
+        actual: row.actual_value ?? undefined,
+        sourceRow: row.source_row ?? undefined,
+        targetRow: row.target_row ?? undefined,
+        rows: row.row_numbers ? JSON.parse(row.row_numbers) : undefined,
+        waiverId: row.waiver_id ?? undefined
+    };
+}
+
+export interface IssueQuery {
+    page?: number;
+    pageSize?: number;
+    type?: string;
+    severity?: string;
+    column?: string;
+    search?: string; // substring of key, values or message
+    status?: string; // 'open' or 'waived'
+}
+
+export const MAX_PAGE_SIZE = 1000;
+
+export function queryIssues(runId: number | string, query: IssueQuery) {
+    const where = ['run_id = ?'];
+    const params: (number | string)[] = [runId];
+
+    if (query.type) { where.push('issue_type = ?'); params.push(query.type); }
+    if (query.severity) { where.push('severity = ?'); params.push(query.severity); }
+    if (query.column) { where.push('column_name = ?'); params.push(query.column); }
+    if (query.status === 'open') where.push('waiver_id IS NULL');
+    if (query.status === 'waived') where.push('waiver_id IS NOT NULL');
+    if (query.search) {
+        where.push('(issue_key LIKE ? OR expected_value LIKE ? OR actual_value LIKE ? OR message LIKE ?)');
+        const like = `%${query.search}%`;
+        params.push(like, like, like, like);
+    }
+
+    const pageSize = Math.min(Math.max(query.pageSize || 100, 1), MAX_PAGE_SIZE);
+    const page = Math.max(query.page || 1, 1);
+    const whereSql = where.join(' AND ');
+
+    const { total } = db.prepare(`SELECT COUNT(*) as total FROM validation_issues WHERE ${whereSql}`).get(...params) as { total: number };
+    const rows = db.prepare(`SELECT * FROM validation_issues WHERE ${whereSql} ORDER BY id LIMIT ? OFFSET ?`)
+        .all(...params, pageSize, (page - 1) * pageSize) as IssueRow[];
+
+    return { total, page, pageSize, issues: rows.map(toIssue) };
+}
+
+// Distinct columns of a run, for filter dropdowns
+export function issueColumns(runId: number | string): string[] {
+    return (db.prepare('SELECT DISTINCT column_name FROM validation_issues WHERE run_id = ? AND column_name IS NOT NULL ORDER BY column_name').all(runId) as Pick<IssueRow, 'column_name'>[])
+        .map(r => r.column_name);
+}
+
+export type DiffStatus = 'resolved' | 'new' | 'persisting';
+
+// Issues are the same across runs when they have the same type, key and column
+const issueIdentity = (i: { type: string; key: string; column?: string }) => JSON.stringify([i.type, i.key, i.column ?? null]);
+
+// Compares the issues of an older (base) run with a newer (head) run
+export function diffRuns(baseRunId: number | string, headRunId: number | string) {
+    const loadIssues = (runId: number | string) =>
+        (db.prepare('SELECT * FROM validation_issues WHERE run_id = ? ORDER BY id').all(runId) as IssueRow[]).map(toIssue);
+
+    const baseIssues = loadIssues(baseRunId);
+    const headIssues = loadIssues(headRunId);
+
+    // Identical identities may repeat (e.g. several unmatched rows of one key),
+    // so they are matched one to one
+    const unmatchedBase = new Map<string, Issue[]>();
+    for (const issue of baseIssues) {
+        const id = issueIdentity(issue);
+        if (!unmatchedBase.has(id)) unmatchedBase.set(id, []);
+        unmatchedBase.get(id)!.push(issue);
+    }
+
+    const issues: (Issue & { status: DiffStatus; previousExpected?: string; previousActual?: string })[] = [];
+    for (const issue of headIssues) {
+        const previous = unmatchedBase.get(issueIdentity(issue))?.shift();
+        if (previous) {
+            issues.push({ ...issue, status: 'persisting', previousExpected: previous.expected, previousActual: previous.actual });
+        } else {
+            issues.push({ ...issue, status: 'new' });
+        }
+    }
+    for (const remaining of unmatchedBase.values()) {
+        for (const issue of remaining) issues.push({ ...issue, status: 'resolved' });
+    }
+
+    const summary: Record<DiffStatus, number> = { resolved: 0, new: 0, persisting: 0 };
+    const columns = new Map<string, { column: string; base: number; head: number } & Record<DiffStatus, number>>();
+    for (const issue of issues) {
+        summary[issue.status]++;
+
+        // Row level issues have no column
+        const column = issue.column ?? '(rows)';
+        if (!columns.has(column)) columns.set(column, { column, base: 0, head: 0, resolved: 0, new: 0, persisting: 0 });
+        const trend = columns.get(column)!;
+        trend[issue.status]++;
+        if (issue.status !== 'new') trend.base++;
+        if (issue.status !== 'resolved') trend.head++;
+    }
+
+    return { summary, columns: [...columns.values()], issues };
+}
@@ -0,0 +1,56 @@
+import { DATA_TYPES, SEVERITIES, type ColumnRule, type DataType, type Severity } from './rules.ts';
+
+// Declared schema of the file checked in single-file mode (validation_projects.settings.schema):
+// the columns the file must have and what their values must look like. Codebooks and
+// formats are checked by the column rules of the file.
+
+export const PROJECT_MODES = ['compare', 'single'] as const;
+
+export type ProjectMode = typeof PROJECT_MODES[number];
+
+export interface SchemaColumn {
+    name: string;
+    type?: DataType;
+    required?: boolean;        // no empty values
+    unique?: boolean;          // no value twice
+    allowedValues?: string[];
+    severity?: Severity;       // of this column's issues, default 'error'
+}
+
+export interface FileSchema {
+    columns: SchemaColumn[];
+    allowExtraColumns?: boolean; // columns not declared are reported unless allowed, default allowed
+}
+
+// Returns an error message for an invalid schema, null when it is ok
+export function checkSchema(schema: Partial<FileSchema> | null): string | null {
+    if (!schema || !Array.isArray(schema.columns)) return 'Schema must contain a list of columns';
+    const names = new Set<string>();
+    for (const col of schema.columns) {
+        if (!col || typeof col.name !== 'string' || col.name.trim() === '') return 'Every schema column needs a name';
+        if (names.has(col.name)) return `Column '${col.name}' is declared twice`;
+        names.add(col.name);
+        if (col.type !== undefined && !DATA_TYPES.includes(col.type)) return `${col.name}: unknown data type '${col.type}'`;
+        if (col.severity !== undefined && !SEVERITIES.includes(col.severity)) return `${col.name}: unknown severity '${col.severity}'`;
+        if (col.allowedValues !== undefined) {
+            if (!Array.isArray(col.allowedValues) || col.allowedValues.some(v => typeof v !== 'string')) return `${col.name}: allowed values must be a list`;
+            // The values are stored as an allowed_values rule, separated by '|'
+            if (col.allowedValues.some(v => v.includes('|'))) return `${col.name}: allowed values cannot contain '|'`;
+        }
+    }
+    return null;
+}
+
+// The value checks of a schema as rules on the target's columns
+export function schemaRules(schema: FileSchema): ColumnRule[] {
+    const rules: ColumnRule[] = [];
+    for (const col of schema.columns) {
+        const rule = (rule_type: ColumnRule['rule_type'], parameter: string | null = null) =>
+            rules.push({ file_type: 'target', column_name: col.name, rule_type, parameter, severity: col.severity || 'error' });
+        if (col.required) rule('not_empty');
+        if (col.type && col.type !== 'text') rule('data_type', col.type);
+        if (col.allowedValues?.length) rule('allowed_values', col.allowedValues.join('|'));
+        if (col.unique) rule('unique');
+    }
+    return rules;
+}
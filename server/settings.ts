@@ -0,0 +1,50 @@
+import db, { type ProjectRow } from './database.ts';
+import { checkSchema, PROJECT_MODES, type FileSchema, type ProjectMode } from './schema.ts';
+import { checkStructureSettings, type StructureSettings } from './structure.ts';
+import { checkRowFilters, checkUnmatchedRows, type RowFilters, type UnmatchedRowSettings } from './filters.ts';
+import { checkReconciliation, type AggregateCheck } from './reconcile.ts';
+import { checkSynonyms } from './automap.ts';
+
+// Project settings (validation_projects.settings): a JSON object of options, each
+// checked by the module that uses it
+
+export interface ProjectSettings {
+    mode?: ProjectMode;
+    schema?: FileSchema;
+    structure?: StructureSettings;
+    filters?: RowFilters;
+    unmatchedRows?: UnmatchedRowSettings;
+    reconciliation?: AggregateCheck[];
+    synonyms?: string[][];
+    duplicateKeysAsMultiset?: boolean;
+}
+
+const SETTINGS_CHECKS: { [option in keyof ProjectSettings]: (value: ProjectSettings[option]) => string | null } = {
+    synonyms: checkSynonyms,
+    mode: mode => mode && PROJECT_MODES.includes(mode) ? null : `Unknown project mode '${mode}'`,
+    schema: checkSchema,
+    structure: checkStructureSettings,
+    filters: checkRowFilters,
+    unmatchedRows: checkUnmatchedRows,
+    reconciliation: checkReconciliation,
+};
+
+const checkOption = <K extends keyof ProjectSettings>(option: K, value: ProjectSettings[K]) => SETTINGS_CHECKS[option]?.(value) ?? null;
+
+// Returns an error message for invalid settings, null when they are ok. Only the
+// options present are checked, so that a single option can be updated.
+export function checkProjectSettings(settings: ProjectSettings | null): string | null {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return 'Settings must be an object';
+    for (const option of Object.keys(SETTINGS_CHECKS) as (keyof ProjectSettings)[]) {
+        if (!(option in settings)) continue;
+        const error = checkOption(option, settings[option]);
+        if (error) return error;
+    }
+    return null;
+}
+
+// Settings of a project, none when it has not got any (or does not exist)
+export function projectSettings(projectId: number | string): ProjectSettings {
+    const project = db.prepare('SELECT settings FROM validation_projects WHERE id = ?').get(projectId) as Pick<ProjectRow, 'settings'> | undefined;
+    return JSON.parse(project?.settings || '{}');
+}
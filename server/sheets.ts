@@ -0,0 +1,244 @@
+import * as XLSX from 'xlsx';
+import { isCsvFile, detectCsvOptions, readCsvSample, readCsv, streamCsv, countCsvLines, csvSheetName, type CsvOptions } from './csv.ts';
+
+// Reading uploaded workbooks: which sheet holds the data, which row is the header
+// and where the data starts. Row indexes are 0-based sheet rows (row 1 in Excel = 0).
+
+export interface SheetLayout {
+    sheetName: string;
+    headerRow: number;
+    dataStartRow: number;
+}
+
+// Layout as stored on imported_files; NULLs (files uploaded before layouts existed)
+// mean first sheet, first row as header
+export interface StoredLayout {
+    stored_filename: string;
+    original_filename?: string;
+    csv_options?: string | null; // JSON, overrides of the detected CSV options
+    sheet_name?: string | null;
+    header_row?: number | null;
+    data_start_row?: number | null;
+}
+
+// Cell values of a sheet row by column. Data rows carry their sheet row index as
+// __rowNum__ like SheetJS row objects.
+export type SheetRow = unknown[] & { __rowNum__?: number };
+
+export interface SheetTable {
+    layout: SheetLayout;
+    headers: string[];
+    // Non-blank data rows
+    rows: SheetRow[];
+    firstColumn: number;
+}
+
+const PREVIEW_ROWS = 15;
+const DETECT_ROWS = 30;
+// Streamed XLSX rows give way to other work (requests) this often
+const YIELD_EVERY = 5000;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+const filledCount = (row: SheetRow) => row.filter(v => !isBlank(v)).length;
+
+// All rows of a sheet as arrays, rows[i] being sheet row firstRow + i
+function sheetRows(sheet: XLSX.WorkSheet) {
+    const rows = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', blankrows: true }) as SheetRow[];
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+    return { rows, firstRow: range.s.r, firstColumn: range.s.c };
+}
+
+// The header is the first row near the top that spans most of the table and holds
+// only text; title blocks above it are usually a single cell wide.
+function detectRows(rows: SheetRow[], firstRow: number) {
+    const top = rows.slice(0, DETECT_ROWS);
+    const width = Math.max(0, ...top.map(filledCount));
+    const headerIdx = top.findIndex(row => {
+        const filled = row.filter(v => !isBlank(v));
+        return filled.length > 0
+            && filled.length >= Math.ceil(width * 0.6)
+            && filled.every(v => typeof v === 'string' && isNaN(Number(v)));
+    });
+    const header = headerIdx >= 0 ? headerIdx : Math.max(0, top.findIndex(row => filledCount(row) > 0));
+
+    let data = header + 1;
+    while (data < rows.length && filledCount(rows[data]) === 0) data++;
+    if (data >= rows.length) data = header + 1;
+
+    return { headerRow: firstRow + header, dataStartRow: firstRow + data };
+}
+
+export function detectLayout(workbook: XLSX.WorkBook, sheetName = workbook.SheetNames[0]): SheetLayout {
+    const { rows, firstRow } = sheetRows(workbook.Sheets[sheetName]);
+    return { sheetName, ...detectRows(rows, firstRow) };
+}
+
+// The sheet with the most rows usually holds the data, notes and cover sheets are short
+export function detectSheet(workbook: XLSX.WorkBook): string {
+    let best = workbook.SheetNames[0];
+    let bestRows = -1;
+    for (const name of workbook.SheetNames) {
+        const filled = sheetRows(workbook.Sheets[name]).rows.filter(row => filledCount(row) > 0).length;
+        if (filled > bestRows) {
+            best = name;
+            bestRows = filled;
+        }
+    }
+    return best;
+}
+
+// Header and data start rows that were not chosen are detected
+export function completeLayout(workbook: XLSX.WorkBook, layout: { sheetName: string; headerRow?: number; dataStartRow?: number }): SheetLayout {
+    const detected = detectLayout(workbook, layout.sheetName);
+    const headerRow = layout.headerRow ?? detected.headerRow;
+    const dataStartRow = layout.dataStartRow ?? (layout.headerRow === undefined ? detected.dataStartRow : headerRow + 1);
+    return { sheetName: layout.sheetName, headerRow, dataStartRow };
+}
+
+// Sheets of a workbook with their first rows, for choosing the layout
+export function describeSheets(workbook: XLSX.WorkBook) {
+    return workbook.SheetNames.map(name => {
+        const { rows, firstRow } = sheetRows(workbook.Sheets[name]);
+        return {
+            name,
+            rowCount: rows.length,
+            firstRow,
+            preview: rows.slice(0, PREVIEW_ROWS).map(row => row.map(v => String(v))),
+            detected: detectRows(rows, firstRow)
+        };
+    });
+}
+
+// Stored layout resolved against the workbook (the sheet may have been renamed or removed)
+export function resolveLayout(workbook: XLSX.WorkBook, file: StoredLayout): SheetLayout {
+    const sheetName = file.sheet_name && workbook.SheetNames.includes(file.sheet_name) ? file.sheet_name : workbook.SheetNames[0];
+    if (file.header_row === null || file.header_row === undefined) {
+        const firstRow = XLSX.utils.decode_range(workbook.Sheets[sheetName]['!ref'] || 'A1').s.r;
+        return { sheetName, headerRow: firstRow, dataStartRow: firstRow + 1 };
+    }
+    return { sheetName, headerRow: file.header_row, dataStartRow: file.data_start_row ?? file.header_row + 1 };
+}
+
+// Marks a row with its 0-based sheet row, like SheetJS marks row objects
+const withRowNum = (row: SheetRow, rowIndex: number): SheetRow => Object.defineProperty(row, '__rowNum__', { value: rowIndex, enumerable: false });
+
+export function tableFromWorkbook(workbook: XLSX.WorkBook, layout: SheetLayout): SheetTable {
+    const { rows, firstRow, firstColumn } = sheetRows(workbook.Sheets[layout.sheetName]);
+    const headerRow = rows[layout.headerRow - firstRow] || [];
+
+    const dataRows: SheetRow[] = [];
+    rows.forEach((row, i) => {
+        if (firstRow + i < layout.dataStartRow || filledCount(row) === 0) return;
+        dataRows.push(withRowNum(row, firstRow + i));
+    });
+
+    return {
+        layout,
+        headers: headerRow.map((h, idx) => String(isBlank(h) ? `Column ${idx + 1}` : h)),
+        rows: dataRows,
+        firstColumn
+    };
+}
+
+// CSV options of a file: the stored overrides on top of what is detected from the
+// start of the file. Imports store all options, so this is rarely needed.
+export function csvOptionsOf(file: StoredLayout): CsvOptions {
+    const stored = JSON.parse(file.csv_options || '{}');
+    if (stored.encoding && stored.delimiter && stored.quote) return stored;
+    const detected = detectCsvOptions(readCsvSample(file.stored_filename), file.original_filename ?? file.stored_filename, true);
+    return { ...detected, ...stored };
+}
+
+export const isCsvUpload = (file: StoredLayout) => isCsvFile(file.original_filename ?? file.stored_filename);
+
+// Workbook of an uploaded file. CSV files become a single sheet holding text values
+// only, so that leading zeros and long IDs survive.
+export function readWorkbook(file: StoredLayout): XLSX.WorkBook {
+    if (!isCsvUpload(file)) return XLSX.readFile(file.stored_filename);
+
+    const workbook = XLSX.utils.book_new();
+    const rows = readCsv(file.stored_filename, csvOptionsOf(file));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), csvSheetName(file.original_filename ?? file.stored_filename));
+    return workbook;
+}
+
+// Header and data rows of an uploaded file, read with its stored layout
+export function readTable(file: StoredLayout): SheetTable {
+    const workbook = readWorkbook(file);
+    return tableFromWorkbook(workbook, resolveLayout(workbook, file));
+}
+
+export function checkLayout(workbook: XLSX.WorkBook, layout: Partial<SheetLayout>): string | null {
+    if (!layout.sheetName || !workbook.SheetNames.includes(layout.sheetName)) return `Sheet '${layout.sheetName}' not found`;
+    for (const field of ['headerRow', 'dataStartRow'] as const) {
+        const value = layout[field];
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) return `${field} must be a non-negative integer`;
+    }
+    if (layout.headerRow !== undefined && layout.dataStartRow !== undefined && layout.dataStartRow <= layout.headerRow) {
+        return 'Data must start below the header row';
+    }
+    return null;
+}
+
+// Data rows of an uploaded file one at a time (marked with __rowNum__ like readTable).
+// Only CSV files are parsed as a stream. SheetJS only reads complete workbooks, so an
+// XLSX file is held in memory as a whole, in the compact dense form, and memory grows
+// with its size; each row is released once it has been handed out.
+export async function* streamRows(file: StoredLayout): AsyncGenerator<SheetRow> {
+    if (isCsvUpload(file)) {
+        const headerRow = file.header_row ?? 0;
+        const dataStartRow = file.data_start_row ?? headerRow + 1;
+        let index = 0;
+        for await (const record of streamCsv(file.stored_filename, csvOptionsOf(file))) {
+            if (index >= dataStartRow && filledCount(record) > 0) yield withRowNum(record, index);
+            index++;
+        }
+        return;
+    }
+
+    const workbook = XLSX.readFile(file.stored_filename, { dense: true, cellText: false, cellHTML: false });
+    const layout = resolveLayout(workbook, file);
+    // Dense sheets are arrays of rows of cells, indexed by sheet row and column
+    const sheet = workbook.Sheets[layout.sheetName] as XLSX.WorkSheet & (XLSX.CellObject[] | undefined)[];
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+
+    for (let r = Math.max(layout.dataStartRow, range.s.r); r <= range.e.r; r++) {
+        const cells = sheet[r] || [];
+        sheet[r] = undefined;
+        const row: SheetRow = [];
+        for (let c = range.s.c; c <= range.e.c; c++) row.push(cells[c]?.v ?? '');
+        if (filledCount(row) > 0) yield withRowNum(row, r);
+        if (r % YIELD_EVERY === 0) await new Promise(resolve => setImmediate(resolve));
+    }
+}
+
+// Number of rows from the data start row on (blank rows included), for progress
+// reporting. Much cheaper than reading the file: CSV lines are counted, of XLSX
+// sheets only the first row is parsed, SheetJS keeps the full range in !fullref.
+export async function countRows(file: StoredLayout): Promise<number> {
+    if (isCsvUpload(file)) {
+        const dataStartRow = file.data_start_row ?? (file.header_row ?? 0) + 1;
+        return Math.max(0, await countCsvLines(file.stored_filename) - dataStartRow);
+    }
+
+    const workbook = XLSX.readFile(file.stored_filename, { sheetRows: 1 });
+    const layout = resolveLayout(workbook, file);
+    const sheet = workbook.Sheets[layout.sheetName];
+    const range = XLSX.utils.decode_range(sheet['!fullref'] || sheet['!ref'] || 'A1');
+    return Math.max(0, range.e.r + 1 - Math.max(layout.dataStartRow, range.s.r));
+}
+
+// The first data rows of a file, for suggestions that only need a sample of the values
+export async function sampleRows(file: StoredLayout, limit: number): Promise<SheetRow[]> {
+    if (isCsvUpload(file)) {
+        const rows: SheetRow[] = [];
+        for await (const row of streamRows(file)) {
+            rows.push(row);
+            if (rows.length >= limit) break;
+        }
+        return rows;
+    }
+
+    const workbook = XLSX.readFile(file.stored_filename, { sheetRows: (file.data_start_row ?? 1) + limit });
+    return tableFromWorkbook(workbook, resolveLayout(workbook, file)).rows.slice(0, limit);
+}
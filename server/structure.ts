@@ -0,0 +1,125 @@
+import { nameTokens, levenshtein } from './automap.ts';
+import { SEVERITIES, type Severity } from './rules.ts';
+import type { Issue } from './validator.ts';
+
+// Structural check of the header: the columns a file is expected to have (those of
+// the source file, or of the declared schema) against the columns it has.
+
+export const STRUCTURE_ISSUES = ['missing_column', 'extra_column', 'column_order', 'header_spelling'] as const;
+
+export type StructureIssue = typeof STRUCTURE_ISSUES[number];
+
+// How serious each kind of difference is (validation_projects.settings.structure), 'off' skips it
+export type StructureSettings = Partial<Record<StructureIssue, Severity | 'off'>>;
+
+export const DEFAULT_STRUCTURE: Record<StructureIssue, Severity | 'off'> = {
+    missing_column: 'warning',
+    extra_column: 'warning',
+    column_order: 'warning',
+    header_spelling: 'warning',
+};
+
+export interface ExpectedColumn {
+    name: string;
+    mappedTo?: string | null; // column of the checked file it is mapped to
+    severity?: Severity;      // of this column missing, instead of the setting
+    optional?: boolean;       // excluded on purpose (mapping_note.excluded): a header spelled
+                              // like it is still reported, its absence is not
+}
+
+// Returns an error message for invalid structure settings, null when they are ok
+export function checkStructureSettings(structure: unknown): string | null {
+    if (!structure || typeof structure !== 'object' || Array.isArray(structure)) return 'Structure settings must be an object';
+    for (const [type, severity] of Object.entries(structure)) {
+        if (!STRUCTURE_ISSUES.includes(type as StructureIssue)) return `Unknown structure check '${type}'`;
+        if (severity !== 'off' && !SEVERITIES.includes(severity as Severity)) return `Unknown severity '${severity}'`;
+    }
+    return null;
+}
+
+// Same words ignoring case, diacritics and separators, or one letter off
+function spelledAlike(a: string, b: string) {
+    const x = nameTokens(a).join('');
+    const y = nameTokens(b).join('');
+    return x === y || (Math.min(x.length, y.length) >= 4 && levenshtein(x, y) <= 1);
+}
+
+// Positions of the longest increasing run of positions; the other columns are the ones that moved
+function inOrder(positions: number[]) {
+    const lengths = positions.map(() => 1);
+    const previous = positions.map(() => -1);
+    for (let i = 0; i < positions.length; i++) {
+        for (let j = 0; j < i; j++) {
+            if (positions[j] < positions[i] && lengths[j] + 1 > lengths[i]) {
+                lengths[i] = lengths[j] + 1;
+                previous[i] = j;
+            }
+        }
+    }
+    const kept = new Set<number>();
+    let i = lengths.indexOf(Math.max(0, ...lengths));
+    for (; i >= 0; i = previous[i]) kept.add(i);
+    return kept;
+}
+
+// Columns are paired by mapping, then by equal names, then by names spelled alike.
+// Expected columns left over are missing, columns of the file left over are extra.
+export function checkStructure(expected: ExpectedColumn[], actual: string[], settings: StructureSettings = {}, fileLabel = 'Target'): Issue[] {
+    const severityOf = (type: StructureIssue) => settings[type] ?? DEFAULT_STRUCTURE[type];
+    const issues: Issue[] = [];
+    const report = (type: StructureIssue, column: string, message: string, fields: Partial<Issue> = {}) => {
+        const severity = fields.severity ?? severityOf(type);
+        if (severity === 'off') return;
+        issues.push({ key: column, type, column, message, ...fields, severity });
+    };
+
+    const pairs = new Map<number, number>(); // expected index -> actual index
+    const used = new Set<number>();
+    const pair = (e: number, a: number) => { pairs.set(e, a); used.add(a); };
+    const findUnused = (test: (name: string) => boolean) => actual.findIndex((name, a) => !used.has(a) && test(name));
+
+    expected.forEach((col, e) => {
+        const a = col.mappedTo ? findUnused(name => name === col.mappedTo) : -1;
+        if (a >= 0) pair(e, a);
+    });
+    expected.forEach((col, e) => {
+        if (pairs.has(e)) return;
+        const a = findUnused(name => name === col.name);
+        if (a >= 0) pair(e, a);
+    });
+    expected.forEach((col, e) => {
+        if (pairs.has(e)) return;
+        const a = findUnused(name => spelledAlike(name, col.name));
+        if (a >= 0) pair(e, a);
+    });
+
+    expected.forEach((col, e) => {
+        const a = pairs.get(e);
+        if (a === undefined) {
+            if (col.optional) return;
+            const severity = col.severity && severityOf('missing_column') !== 'off' ? col.severity : undefined;
+            report('missing_column', col.name, `Column '${col.name}' is missing in the ${fileLabel} file`, { expected: col.name, severity });
+        } else if (actual[a] !== col.name && spelledAlike(actual[a], col.name)) {
+            // Deliberate renames are mapped; a header spelled differently is reported even then
+            report('header_spelling', col.name, `Column '${col.name}' is spelled '${actual[a]}' in the ${fileLabel} file`, { expected: col.name, actual: actual[a] });
+        }
+    });
+
+    actual.forEach((name, a) => {
+        if (!used.has(a)) report('extra_column', name, `Column '${name}' is not expected in the ${fileLabel} file`, { actual: name });
+    });
+
+    const paired = [...pairs.entries()].sort((x, y) => x[0] - y[0]);
+    const kept = inOrder(paired.map(([, a]) => a));
+    paired.forEach(([e, a], i) => {
+        if (kept.has(i)) return;
+        const before = paired.slice(0, i).reverse().find((_, j) => kept.has(i - 1 - j));
+        const position = before ? `after '${actual[before[1]]}'` : 'first';
+        report('column_order', expected[e].name, `Column '${actual[a]}' is column ${a + 1} of the ${fileLabel} file, expected ${position}`, {
+            expected: String(e + 1),
+            actual: String(a + 1)
+        });
+    });
+
+    return issues;
+}
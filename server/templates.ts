@@ -0,0 +1,357 @@
+import db, { type FileRow, type FileColumnRow, type MappingRow, type MappingNote, type RuleRow, type ColumnRuleRow, type ProjectRow, type TemplateRow } from './database.ts';
+import { checkComparisonConfig, type ComparisonConfig } from './compare.ts';
+import { checkMappingRule, checkColumnRule, type RuleType, type Severity } from './rules.ts';
+import { currentFile, currentFiles } from './files.ts';
+import { checkTranslation, type Translation } from './codebooks.ts';
+import { checkExpression } from './expressions.ts';
+import { checkProjectSettings, projectSettings, type ProjectSettings } from './settings.ts';
+
+// Mapping templates: the mapping of a project saved under a name and applied to
+// other projects. Columns are referenced by name, codebooks by file name, so that
+// a template outlives the files it was made from.
+
+export const TEMPLATE_TYPE = 'mapping-template';
+export const TEMPLATE_VERSION = 1;
+
+export interface TemplateRule {
+    rule_type: RuleType;
+    parameter: string | null;
+    severity: Severity;
+    codebook?: string; // exists_in_codebook: original filename of the codebook
+}
+
+export interface TemplateColumn {
+    source: string;
+    target: string | null;
+    isKey: boolean;
+    excluded?: boolean; // left out of the target on purpose
+    comparison?: ComparisonConfig;
+    translate?: Omit<Translation, 'codebookFileId'> & { codebook: string }; // original filename of the codebook
+    rules: TemplateRule[];
+}
+
+// Derived mapping: a target column computed by an expression over source columns
+export interface TemplateDerivedColumn {
+    target: string;
+    expression: string;
+    comparison?: ComparisonConfig;
+    rules: TemplateRule[];
+}
+
+// Column rule (column_rules) of the source or target file, independent of the mappings
+export interface TemplateColumnRule extends TemplateRule {
+    file_type: 'source' | 'target';
+    column_name: string;
+}
+
+export interface TemplateDefinition {
+    columns: TemplateColumn[];
+    derived?: TemplateDerivedColumn[];
+    columnRules?: TemplateColumnRule[]; // left out by templates made before column rules were saved
+    settings?: ProjectSettings; // all project settings: mode, schema, structure, filters, unmatched rows, reconciliation, synonyms, duplicate keys
+}
+
+// Thrown for templates that cannot be stored or applied
+export class TemplateError extends Error { }
+
+export interface ApplyReport {
+    found: { source: string; target: string | null }[];
+    missing: { column: string; fileType: 'source' | 'target' }[];
+    new: { source: string[]; target: string[] };
+    missingCodebooks: string[];
+    applied: number;
+    columnRules: number;
+}
+
+const fileColumns = (file: FileRow | undefined) =>
+    file ? db.prepare('SELECT * FROM file_columns WHERE file_id = ? ORDER BY column_index').all(file.id) as FileColumnRow[] : [];
+
+type NamedMapping = MappingRow & { source_name?: string; target_name: string | null };
+
+export function templateFromProject(projectId: number | string): TemplateDefinition {
+    const project = db.prepare('SELECT settings FROM validation_projects WHERE id = ?').get(projectId) as Pick<ProjectRow, 'settings'> | undefined;
+    if (!project) throw new TemplateError('Project not found');
+
+    const mappings = db.prepare(`
+        SELECT m.*, sc.column_name as source_name, tc.column_name as target_name
+        FROM column_mappings m
+        JOIN file_columns sc ON m.source_column_id = sc.id
+        LEFT JOIN file_columns tc ON m.target_column_id = tc.id
+        WHERE m.project_id = ?
+        ORDER BY sc.column_index
+    `).all(projectId) as NamedMapping[];
+
+    const derivedMappings = db.prepare(`
+        SELECT m.*, tc.column_name as target_name
+        FROM column_mappings m
+        JOIN file_columns tc ON m.target_column_id = tc.id
+        WHERE m.project_id = ? AND m.source_column_id IS NULL
+        ORDER BY tc.column_index
+    `).all(projectId) as NamedMapping[];
+
+    const codebookFile = db.prepare("SELECT original_filename FROM imported_files WHERE id = ? AND file_type = 'codebook'");
+    const codebookName = (id: number | string) => (codebookFile.get(id) as Pick<FileRow, 'original_filename'> | undefined)?.original_filename ?? '';
+    const rulesStmt = db.prepare('SELECT * FROM validation_rules WHERE column_mapping_id = ? ORDER BY id');
+    const templateRules = (rules: Pick<RuleRow, 'rule_type' | 'parameter' | 'severity'>[]): TemplateRule[] => rules.map(r => r.rule_type === 'exists_in_codebook'
+        ? { rule_type: r.rule_type, parameter: null, severity: r.severity, codebook: codebookName(r.parameter) }
+        : { rule_type: r.rule_type, parameter: r.parameter, severity: r.severity });
+
+    const columns = mappings.map(m => {
+        const note: MappingNote = JSON.parse(m.mapping_note || '{}');
+        const rules = rulesStmt.all(m.id) as Pick<RuleRow, 'rule_type' | 'parameter' | 'severity'>[];
+        // Mappings saved before the rule engine keep their codebook in the note
+        if (note.codebookFileId && !rules.some(r => r.rule_type === 'exists_in_codebook' && Number(r.parameter) === note.codebookFileId)) {
+            rules.push({ rule_type: 'exists_in_codebook', parameter: String(note.codebookFileId), severity: 'error' });
+        }
+
+        return {
+            source: m.source_name,
+            target: m.target_name ?? null,
+            isKey: note.isKey || false,
+            ...(note.excluded && { excluded: true }),
+            comparison: note.comparison,
+            translate: note.translate ? templateTranslation(note.translate, codebookName(note.translate.codebookFileId)) : undefined,
+            rules: templateRules(rules)
+        };
+    });
+
+    const derived = derivedMappings.map(m => {
+        const note: MappingNote = JSON.parse(m.mapping_note || '{}');
+        return { target: m.target_name, expression: note.expression, comparison: note.comparison, rules: templateRules(rulesStmt.all(m.id) as RuleRow[]) };
+    });
+
+    const columnRules = (db.prepare('SELECT * FROM column_rules WHERE project_id = ? ORDER BY id').all(projectId) as ColumnRuleRow[])
+        .map(r => ({ file_type: r.file_type, column_name: r.column_name, ...templateRules([r])[0] }));
+
+    // A project without a source file (single-file mode) is captured by its schema and column rules
+    const settings: ProjectSettings = JSON.parse(project.settings || '{}');
+    if (columns.length === 0 && derived.length === 0 && columnRules.length === 0 && !settings.schema?.columns?.length) {
+        throw new TemplateError('The project has no saved mappings, column rules or schema');
+    }
+    return { columns, ...(derived.length > 0 && { derived }), columnRules, settings };
+}
+
+const templateTranslation = (translation: Translation, codebook: string) => {
+    const options: Partial<Translation> = { ...translation };
+    delete options.codebookFileId;
+    return { ...options, codebook };
+};
+
+// Returns an error message for a malformed template (e.g. an edited export), null when it is ok
+export function checkTemplateDefinition(definition: TemplateDefinition | null): string | null {
+    if (!definition || !Array.isArray(definition.columns)) return 'Template must contain a list of columns';
+    if (definition.settings !== undefined) {
+        // The settings replace the project's, so they pass the same checks as an edit
+        const settingsError = checkProjectSettings(definition.settings);
+        if (settingsError) return `Template settings: ${settingsError}`;
+    }
+    for (const col of definition.columns) {
+        if (!col || typeof col.source !== 'string') return 'Every template column needs a source column name';
+        if (col.target !== null && col.target !== undefined && typeof col.target !== 'string') return `Target of '${col.source}' must be a column name`;
+        if (col.excluded !== undefined && typeof col.excluded !== 'boolean') return `${col.source}: excluded must be true or false`;
+        const comparisonError = checkComparisonConfig(col.comparison);
+        if (comparisonError) return `${col.source}: ${comparisonError}`;
+        if (col.translate !== undefined) {
+            const translationError = typeof col.translate?.codebook === 'string'
+                ? checkTranslation({ ...col.translate, codebookFileId: 0 })
+                : 'Translation needs a codebook file name';
+            if (translationError) return `${col.source}: ${translationError}`;
+        }
+        for (const rule of col.rules || []) {
+            // Codebooks are resolved when applied, any file id passes the check
+            const ruleError = checkMappingRule(rule.rule_type === 'exists_in_codebook' ? { ...rule, parameter: '0' } : rule);
+            if (ruleError) return `${col.source}: ${ruleError}`;
+        }
+    }
+    if (definition.derived !== undefined && !Array.isArray(definition.derived)) return 'Derived columns must be a list';
+    for (const col of definition.derived || []) {
+        if (!col || typeof col.target !== 'string') return 'Every derived column needs a target column name';
+        const expressionError = checkExpression(col.expression);
+        if (expressionError) return `${col.target}: ${expressionError}`;
+        const comparisonError = checkComparisonConfig(col.comparison);
+        if (comparisonError) return `${col.target}: ${comparisonError}`;
+        for (const rule of col.rules || []) {
+            const ruleError = checkMappingRule(rule.rule_type === 'exists_in_codebook' ? { ...rule, parameter: '0' } : rule);
+            if (ruleError) return `${col.target}: ${ruleError}`;
+        }
+    }
+    if (definition.columnRules !== undefined && !Array.isArray(definition.columnRules)) return 'Column rules must be a list';
+    for (const rule of definition.columnRules || []) {
+        const ruleError = checkColumnRule(rule?.rule_type === 'exists_in_codebook' ? { ...rule, parameter: '0' } : rule);
+        if (ruleError) return `${rule?.column_name ?? 'Column rule'}: ${ruleError}`;
+    }
+    return null;
+}
+
+// Replaces the mappings of a project with the template's, matched to its columns by
+// name. With dryRun only the report is computed.
+export function applyTemplate(projectId: number | string, definition: TemplateDefinition, dryRun = false): ApplyReport {
+    // Templates stored before their settings were checked
+    const definitionError = checkTemplateDefinition(definition);
+    if (definitionError) throw new TemplateError(definitionError);
+
+    const sourceCols = fileColumns(currentFile(projectId, 'source'));
+    const targetCols = fileColumns(currentFile(projectId, 'target'));
+    if (sourceCols.length === 0 && targetCols.length === 0) throw new TemplateError('Upload the files before applying a template');
+    if (sourceCols.length === 0 && (definition.columns.length > 0 || definition.derived?.length)) {
+        throw new TemplateError('Upload the source file before applying a template');
+    }
+
+    const codebooks = currentFiles(projectId).filter(f => f.file_type === 'codebook');
+    // A codebook is found by its file name, a project with a single codebook uses that one
+    const resolveCodebook = (name: string) =>
+        codebooks.find(cb => cb.original_filename === name) ?? (codebooks.length === 1 ? codebooks[0] : undefined);
+
+    const report: ApplyReport = { found: [], missing: [], new: { source: [], target: [] }, missingCodebooks: [], applied: 0, columnRules: 0 };
+    const usedSource = new Set<number>();
+    const usedTarget = new Set<number>();
+    const mappings: { sourceId: number | null; targetId: number | null; note: string; rules: TemplateRule[] }[] = [];
+
+    const codebookId = (name: string) => {
+        const codebook = resolveCodebook(name);
+        if (!codebook && !report.missingCodebooks.includes(name)) report.missingCodebooks.push(name);
+        return codebook?.id as number | undefined;
+    };
+
+    // Codebook rules point to the project's codebook of the same name, or are left out
+    const projectRules = (templateRules: TemplateRule[] = []) => {
+        const rules: TemplateRule[] = [];
+        for (const rule of templateRules) {
+            if (rule.rule_type !== 'exists_in_codebook') {
+                rules.push(rule);
+                continue;
+            }
+            const id = codebookId(rule.codebook ?? '');
+            if (id) rules.push({ rule_type: rule.rule_type, parameter: String(id), severity: rule.severity });
+        }
+        return rules;
+    };
+
+    for (const col of definition.columns) {
+        const source = sourceCols.find(c => c.column_name === col.source);
+        const target = col.target ? targetCols.find(c => c.column_name === col.target) : undefined;
+        if (!source) report.missing.push({ column: col.source, fileType: 'source' });
+        if (col.target && !target) report.missing.push({ column: col.target, fileType: 'target' });
+        if (!source) continue;
+
+        const rules = projectRules(col.rules);
+
+        let translate: Translation | undefined;
+        if (col.translate) {
+            const { codebook, ...options } = col.translate;
+            const id = codebookId(codebook);
+            if (id) translate = { ...options, codebookFileId: id };
+        }
+
+        usedSource.add(source.id);
+        if (target) usedTarget.add(target.id);
+        report.found.push({ source: col.source, target: target ? col.target : null });
+        mappings.push({
+            sourceId: source.id,
+            targetId: target?.id ?? null,
+            note: JSON.stringify({ isKey: col.isKey || false, excluded: col.excluded || undefined, comparison: col.comparison, translate }),
+            rules
+        });
+    }
+
+    for (const col of definition.derived || []) {
+        const target = targetCols.find(c => c.column_name === col.target);
+        if (!target) {
+            report.missing.push({ column: col.target, fileType: 'target' });
+            continue;
+        }
+        usedTarget.add(target.id);
+        report.found.push({ source: `= ${col.expression}`, target: col.target });
+        mappings.push({
+            sourceId: null,
+            targetId: target.id,
+            note: JSON.stringify({ isKey: false, comparison: col.comparison, expression: col.expression }),
+            rules: projectRules(col.rules)
+        });
+    }
+
+    // Column rules stay matched by name, like the project's own
+    const columnRules: TemplateColumnRule[] = [];
+    for (const rule of definition.columnRules || []) {
+        const cols = rule.file_type === 'source' ? sourceCols : targetCols;
+        if (cols.length > 0 && !cols.some(c => c.column_name === rule.column_name)
+            && !report.missing.some(m => m.fileType === rule.file_type && m.column === rule.column_name)) {
+            report.missing.push({ column: rule.column_name, fileType: rule.file_type });
+        }
+        for (const projectRule of projectRules([rule])) columnRules.push({ ...projectRule, file_type: rule.file_type, column_name: rule.column_name });
+    }
+
+    report.new.source = sourceCols.filter(c => !usedSource.has(c.id)).map(c => c.column_name);
+    report.new.target = targetCols.filter(c => !usedTarget.has(c.id)).map(c => c.column_name);
+    report.applied = mappings.length;
+    report.columnRules = columnRules.length;
+    if (dryRun) return report;
+
+    const insertMapping = db.prepare('INSERT INTO column_mappings (project_id, source_column_id, target_column_id, mapping_note) VALUES (?, ?, ?, ?)');
+    const insertRule = db.prepare('INSERT INTO validation_rules (column_mapping_id, rule_type, parameter, severity) VALUES (?, ?, ?, ?)');
+    db.transaction(() => {
+        db.prepare('DELETE FROM validation_rules WHERE column_mapping_id IN (SELECT id FROM column_mappings WHERE project_id = ?)').run(projectId);
+        db.prepare('DELETE FROM column_mappings WHERE project_id = ?').run(projectId);
+        for (const m of mappings) {
+            const mappingId = insertMapping.run(projectId, m.sourceId, m.targetId, m.note).lastInsertRowid;
+            for (const rule of m.rules) insertRule.run(mappingId, rule.rule_type, rule.parameter ?? null, rule.severity || 'error');
+        }
+        // Templates without column rules leave the project's rules as they are
+        if (definition.columnRules) {
+            const insertColumnRule = db.prepare('INSERT INTO column_rules (project_id, file_type, column_name, rule_type, parameter, severity) VALUES (?, ?, ?, ?, ?, ?)');
+            db.prepare('DELETE FROM column_rules WHERE project_id = ?').run(projectId);
+            for (const rule of columnRules) {
+                insertColumnRule.run(projectId, rule.file_type, rule.column_name, rule.rule_type, rule.parameter ?? null, rule.severity || 'error');
+            }
+        }
+        if (definition.settings) {
+            const settings = { ...projectSettings(projectId), ...definition.settings };
+            db.prepare('UPDATE validation_projects SET settings = ? WHERE id = ?').run(JSON.stringify(settings), projectId);
+        }
+    })();
+    return report;
+}
+
+export function listTemplates() {
+    const templates = db.prepare('SELECT * FROM mapping_templates ORDER BY name').all() as TemplateRow[];
+    return templates.map(({ definition, ...t }) => ({ ...t, columnCount: JSON.parse(definition).columns.length }));
+}
+
+export function getTemplate(templateId: number | string) {
+    const template = db.prepare('SELECT * FROM mapping_templates WHERE id = ?').get(templateId) as TemplateRow | undefined;
+    return template && { ...template, definition: JSON.parse(template.definition) as TemplateDefinition };
+}
+
+// Stores a template; a template of the same name is replaced only when asked to
+export function saveTemplate(name: string, description: string | null, definition: TemplateDefinition, replace = false): number {
+    const existing = db.prepare('SELECT id FROM mapping_templates WHERE name = ?').get(name) as Pick<TemplateRow, 'id'> | undefined;
+    if (existing && !replace) throw new TemplateError(`Template '${name}' already exists`);
+    if (existing) {
+        db.prepare('UPDATE mapping_templates SET description = ?, definition = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+            .run(description, JSON.stringify(definition), existing.id);
+        return existing.id;
+    }
+    return Number(db.prepare('INSERT INTO mapping_templates (name, description, definition) VALUES (?, ?, ?)')
+        .run(name, description, JSON.stringify(definition)).lastInsertRowid);
+}
+
+// Name, description and definition of an exported template file. Throws a
+// TemplateError for files that are not templates or that this version cannot read.
+export function parseTemplateFile(file: Partial<TemplateFile> | null): { name: string; description: string | null; definition: TemplateDefinition } {
+    const { type, version, name, description, columns, derived, columnRules, settings } = file || {};
+    if (type !== undefined && type !== TEMPLATE_TYPE) throw new TemplateError('Not a mapping template file');
+    if (version > TEMPLATE_VERSION) throw new TemplateError(`Template version ${version} is not supported`);
+    if (!name || typeof name !== 'string' || !name.trim()) throw new TemplateError('Template name is required');
+
+    const definition = { columns, ...(derived !== undefined && { derived }), ...(columnRules !== undefined && { columnRules }), settings };
+    const definitionError = checkTemplateDefinition(definition);
+    if (definitionError) throw new TemplateError(definitionError);
+    return { name: name.trim(), description: description || null, definition };
+}
+
+export type TemplateFile = ReturnType<typeof exportTemplate>;
+
+// JSON file of a template, read back by the import
+export function exportTemplate(template: { name: string; description: string | null; definition: TemplateDefinition }) {
+    return { type: TEMPLATE_TYPE, version: TEMPLATE_VERSION, name: template.name, description: template.description, ...template.definition };
+}
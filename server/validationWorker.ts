@@ -0,0 +1,39 @@
+import { parentPort, workerData } from 'worker_threads';
+import { validateProject, ValidationSetupError } from './validator.ts';
+import { saveRun } from './runs.ts';
+import type { WorkerMessage } from './jobs.ts';
+
+// Runs one validation in a worker thread (see jobs.ts) and reports back to the
+// server: progress while reading and comparing, then the stored run or the error.
+
+const { projectId } = workerData as { projectId: number };
+const controller = new AbortController();
+
+parentPort!.on('message', (message: { type: 'cancel' }) => {
+    if (message.type === 'cancel') controller.abort();
+});
+
+const report = (message: WorkerMessage) => parentPort!.postMessage(message);
+
+async function run() {
+    try {
+        const outcome = await validateProject(projectId, {
+            signal: controller.signal,
+            onProgress: progress => report({ type: 'progress', progress })
+        });
+        const runId = saveRun(projectId, outcome);
+        report({ type: 'completed', runId });
+    } catch (error) {
+        if (controller.signal.aborted) {
+            report({ type: 'cancelled' });
+        } else {
+            if (!(error instanceof ValidationSetupError)) console.error(error);
+            report({ type: 'failed', error: (error as Error).message });
+        }
+    } finally {
+        // A waiting cancel listener must not keep the worker alive
+        parentPort!.unref();
+    }
+}
+
+run();
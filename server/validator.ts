@@ -0,0 +1,645 @@
+import db, { type FileRow, type FileColumnRow, type MappingRow, type MappingNote, type RuleRow } from './database.ts';
+import { evaluateRule, type ValidationRule, type ColumnRule, type RuleContext } from './rules.ts';
+import { normalizeValue, valuesEqual, DEFAULT_COMPARISON, type ComparisonConfig } from './compare.ts';
+import { streamRows, countRows, type SheetRow } from './sheets.ts';
+import { KeyedRowStore, type KeyedRow, type Side } from './rowstore.ts';
+import { currentFile, currentFiles } from './files.ts';
+import { loadCodebook, translationLookup, expressionLookup, type Codebook, type Translation } from './codebooks.ts';
+import { schemaRules, type FileSchema } from './schema.ts';
+import { checkStructure, type StructureSettings } from './structure.ts';
+import { compileExpression, ExpressionError } from './expressions.ts';
+import { rowFilter, RowFilterError, type RowFilter, type UnmatchedRowSettings } from './filters.ts';
+import { projectSettings } from './settings.ts';
+import { createReconciliation, describeCheck, ReconciliationError, type AggregateCheck, type ReconciledColumn, type ReconciliationResult } from './reconcile.ts';
+
+// Validation engine: compares the target file of a project against its source file.
+// In single-file mode, or without a source file, the target is checked on its own
+// against the declared schema and its column rules.
+
+export interface Issue {
+    key: string;
+    keyParts?: string[];
+    type: string;
+    severity?: string;
+    rule?: string;
+    message?: string;
+    column?: string;
+    expected?: string;
+    actual?: string;
+    sourceRow?: number;  // 1-based sheet row numbers
+    targetRow?: number;
+    rows?: number[];     // all rows involved (duplicate keys)
+}
+
+// A mapping with its rules as a run used it, so that older runs stay readable after remapping
+export interface MappingSnapshot {
+    id: number;
+    sourceColumn: string | null;
+    targetColumn: string | null;
+    isKey: boolean;
+    comparison: ComparisonConfig;
+    translate?: Translation;
+    expression?: string;
+    rules: ValidationRule[];
+}
+
+export interface ValidationOutcome {
+    sourceFile: FileRow | null;
+    targetFile: FileRow;
+    keyColumns: string[];
+    mappingSnapshot: MappingSnapshot[];
+    issues: Issue[];
+    // Aggregate checks of both files, passed and failed (failed ones are issues as well)
+    reconciliation?: ReconciliationResult[];
+}
+
+// Thrown when the project is not ready to be validated (missing files or key)
+export class ValidationSetupError extends Error { }
+
+export interface ValidationProgress {
+    phase: 'source' | 'target' | 'compare';
+    rowsProcessed: number; // rows read in the current phase
+    rowsTotal: number;     // rows of the phase (both files when comparing)
+}
+
+export interface ValidateOptions {
+    onProgress?: (progress: ValidationProgress) => void;
+    // Aborting stops the validation with the signal's reason
+    signal?: AbortSignal;
+}
+
+// Progress is reported, and other work gets a turn, every this many rows
+const PROGRESS_EVERY = 5000;
+
+export async function validateProject(projectId: number | string, options: ValidateOptions = {}): Promise<ValidationOutcome> {
+    const { onProgress, signal } = options;
+
+    // Fetch files
+    const sourceFile = currentFile(projectId, 'source');
+    const targetFile = currentFile(projectId, 'target');
+
+    const settings = projectSettings(projectId);
+    const schema = settings.schema;
+
+    const columnRules = db.prepare('SELECT * FROM column_rules WHERE project_id = ? ORDER BY id').all(projectId) as ColumnRule[];
+    const singleFile = settings.mode === 'single' || !sourceFile;
+
+    if (!targetFile) {
+        throw new ValidationSetupError(singleFile ? 'Upload the file to check' : 'Missing target file');
+    }
+    if (singleFile && !schema?.columns.length && !columnRules.some(r => r.file_type === 'target')) {
+        throw new ValidationSetupError(settings.mode === 'single'
+            ? 'Declare the schema of the file or add column rules to validate it'
+            : 'Missing source file. Add column rules to validate the target file on its own.');
+    }
+
+    // Codebook Caches
+    const codebookCache = new Map<number, Codebook & { name: string }>();
+    const getCodebook = (cbId: number) => {
+        if (!codebookCache.has(cbId)) {
+            const cbFile = db.prepare("SELECT * FROM imported_files WHERE id = ?").get(cbId) as FileRow | undefined;
+            // Codes are read from the configured key column (the first column unless set)
+            codebookCache.set(cbId, cbFile
+                ? { ...loadCodebook(cbFile), name: cbFile.original_filename }
+                : { headers: [], keyColumn: '', labelColumns: [], entries: [], expired: 0, values: new Set(), name: `#${cbId}` });
+        }
+        return codebookCache.get(cbId)!;
+    };
+    const getCodebookValues = (cbId: number) => getCodebook(cbId).values;
+
+    const ruleContext = { getCodebookValues };
+
+    if (singleFile) {
+        return validateSingleFile(targetFile, schema, settings.structure, settings.filters?.target, columnRules, ruleContext, options);
+    }
+
+    // Fetch Mappings
+    const mappings = db.prepare('SELECT * FROM column_mappings WHERE project_id = ?').all(projectId) as MappingRow[];
+
+    // Identify Key Columns (several mappings may form a composite key)
+    const keyMappings = mappings.filter(m => {
+        try { return (JSON.parse(m.mapping_note || '{}') as MappingNote).isKey; } catch { return false; }
+    });
+
+    // If no key explicitly marked, try to find a mapped column named 'id' or similar, or fail
+    // For this MVP, we REQUIRE a key.
+    if (keyMappings.length === 0) {
+        throw new ValidationSetupError('No Primary Key defined in mappings. Please select a Key column.');
+    }
+
+    // Load Mapping Configs
+    const rulesStmt = db.prepare('SELECT * FROM validation_rules WHERE column_mapping_id = ? ORDER BY id');
+    const config = mappings.map(m => {
+        const note: MappingNote = JSON.parse(m.mapping_note || '{}');
+        const rules = rulesStmt.all(m.id) as ValidationRule[];
+
+        // Mappings saved before the rule engine keep their codebook in the note
+        if (note.codebookFileId && !rules.some(r => r.rule_type === 'exists_in_codebook' && Number(r.parameter) === note.codebookFileId)) {
+            rules.push({ rule_type: 'exists_in_codebook', parameter: String(note.codebookFileId), severity: 'error' });
+        }
+
+        return {
+            sourceId: m.source_column_id,
+            targetId: m.target_column_id,
+            isKey: note.isKey || false,
+            comparison: note.comparison || DEFAULT_COMPARISON,
+            translate: note.translate,
+            // Derived mappings have no source column, the expected value is computed
+            expression: note.expression,
+            // Source column left out of the target on purpose, the target need not have it
+            excluded: note.excluded === true,
+            // An exact_match rule only sets how serious a value mismatch is
+            mismatchSeverity: rules.find(r => r.rule_type === 'exact_match')?.severity || 'error',
+            rules: rules.filter(r => r.rule_type !== 'exact_match')
+        };
+    });
+
+    const sourceColInfo = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(sourceFile.id) as FileColumnRow[];
+    const targetColInfo = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(targetFile.id) as FileColumnRow[];
+
+    // Helper to get column index by ID
+    const getIdx = (colId: number, info: FileColumnRow[]) => info.find(c => c.id === colId)?.column_index;
+
+    const sourceKeyIdxs = keyMappings.map(m => getIdx(m.source_column_id, sourceColInfo));
+    const targetKeyIdxs = keyMappings.map(m => getIdx(m.target_column_id, targetColInfo));
+
+    if (sourceKeyIdxs.includes(undefined) || targetKeyIdxs.includes(undefined)) {
+        throw new ValidationSetupError('Key columns not found in file definitions');
+    }
+
+    const keyColumns = keyMappings.map(m => sourceColInfo.find(c => c.id === m.source_column_id)?.column_name);
+
+    // Rows outside the filters are not validated at all
+    const filters = {
+        source: compileRowFilter(settings.filters?.source, sourceColInfo, 'Source'),
+        target: compileRowFilter(settings.filters?.target, targetColInfo, 'Target')
+    };
+    // Rows without a counterpart are errors unless set otherwise
+    const unmatchedRows: UnmatchedRowSettings = settings.unmatchedRows || {};
+
+    // The target's header against the source's: missing, extra, moved and misspelled columns.
+    // Only source columns excluded in the mapping are not required in the target.
+    const byIndex = (a: FileColumnRow, b: FileColumnRow) => a.column_index - b.column_index;
+    const structureIssues = checkStructure(
+        [...sourceColInfo].sort(byIndex).map(c => {
+            const i = mappings.findIndex(m => m.source_column_id === c.id);
+            return {
+                name: c.column_name,
+                mappedTo: targetColInfo.find(t => t.id === mappings[i]?.target_column_id)?.column_name,
+                optional: i >= 0 && config[i].excluded
+            };
+        }),
+        [...targetColInfo].sort(byIndex).map(c => c.column_name),
+        settings.structure
+    );
+
+    const mappingSnapshot = mappings.map((m, i): MappingSnapshot => ({
+        id: m.id,
+        sourceColumn: sourceColInfo.find(c => c.id === m.source_column_id)?.column_name ?? null,
+        targetColumn: targetColInfo.find(c => c.id === m.target_column_id)?.column_name ?? null,
+        isKey: config[i].isKey,
+        comparison: config[i].comparison,
+        translate: config[i].translate,
+        expression: config[i].expression,
+        rules: (rulesStmt.all(m.id) as RuleRow[]).map(r => ({ rule_type: r.rule_type, parameter: r.parameter, severity: r.severity }))
+    }));
+
+    // Composite keys are normalized part by part (trimmed text, or the canonical
+    // form of the key mapping's comparison mode) so that e.g. the number 42 in one
+    // file matches the text ' 42' in the other.
+    const keyComparisons = keyMappings.map(m => config[mappings.indexOf(m)].comparison);
+    const keyPartsOf = (row: SheetRow, idxs: number[]) => idxs.map((i, part) => normalizeValue(String(row[i] ?? ''), keyComparisons[part]));
+    const KEY_SEPARATOR = '\u001F';
+
+    // Rows stream into a temporary store keyed by their normalized key, so that
+    // memory stays bounded however large the files are. Each file is read with its
+    // chosen sheet, header row and data start row; streamRows marks every row with
+    // its 0-based sheet position. Rows outside the file's filter are skipped, column
+    // rules are checked on the way.
+    const store = new KeyedRowStore();
+    const spill = async (file: FileRow, side: Side, idxs: number[]) => {
+        const checkColumnRules = columnRuleChecker(file, side, columnRules, ruleContext, columnIssues);
+        const rowsTotal = await countRows(file);
+        let rowsProcessed = 0;
+        for await (const row of streamRows(file)) {
+            if (filters[side](row)) {
+                const displayParts = idxs.map(i => String(row[i] ?? '').trim());
+                const rowNumber = row.__rowNum__ + 1;
+                store.add(side, keyPartsOf(row, idxs).join(KEY_SEPARATOR), displayParts, { row, rowNumber });
+                checkColumnRules(row, rowNumber, displayParts.join(' | '), displayParts);
+                reconciliation.add(side, row);
+            }
+            if (++rowsProcessed % PROGRESS_EVERY === 0) {
+                signal?.throwIfAborted();
+                onProgress?.({ phase: side, rowsProcessed, rowsTotal: Math.max(rowsTotal, rowsProcessed) });
+            }
+        }
+        return rowsProcessed;
+    };
+
+    // Issues are collected per kind and reported in this order, each in file order
+    const duplicates: Issue[] = [];
+    const results: Issue[] = [];
+    const columnIssues: Issue[] = [];
+    const extras: Issue[] = [];
+
+    const codebookFiles = currentFiles(projectId).filter(f => f.file_type === 'codebook');
+    const expressionContext = { lookup: expressionLookup(codebookFiles, file => getCodebook(file.id)) };
+    const sourceIndexOf = new Map<string, number>(sourceColInfo.map(c => [c.column_name, c.column_index]));
+
+    // Mapped value columns with their indexes in both files
+    const compared = config
+        .filter(cfg => cfg.targetId)
+        .map(cfg => {
+            const targetName = targetColInfo.find(col => col.id === cfg.targetId)?.column_name;
+            let derive = null;
+            if (cfg.expression) {
+                try {
+                    derive = compileExpression(cfg.expression, [...sourceIndexOf.keys()], expressionContext);
+                } catch (error) {
+                    if (error instanceof ExpressionError) throw new ValidationSetupError(`Expression of ${targetName}: ${error.message}`);
+                    throw error;
+                }
+            }
+            return {
+                cfg,
+                sIdx: getIdx(cfg.sourceId, sourceColInfo),
+                tIdx: getIdx(cfg.targetId, targetColInfo),
+                // Issues of derived mappings name the target column, the others the source column
+                column: derive ? targetName : sourceColInfo.find(col => col.id === cfg.sourceId)?.column_name,
+                // Source values translated through a codebook before they are compared
+                translate: cfg.translate ? translationLookup(getCodebook(cfg.translate.codebookFileId), cfg.translate) : null,
+                derive
+            };
+        })
+        .filter(c => (c.sIdx !== undefined || c.derive) && c.tIdx !== undefined);
+
+    // Value the target should hold: the source value, its translation (null when the
+    // codebook has no entry for it) or the value of the expression. Expressions throw an
+    // ExpressionError for values they cannot be evaluated on.
+    // Target columns computed by an expression have no source column of their own, and the
+    // source columns it reads are not expected in the target under their own names
+    const derivedTargets = new Set(compared.filter(c => c.derive).map(c => c.column));
+    const derivedSources = new Set(compared.flatMap(c => c.derive?.columns ?? []));
+    const isDerived = (issue: Issue) => (issue.type === 'extra_column' && derivedTargets.has(issue.column))
+        || (issue.type === 'missing_column' && derivedSources.has(issue.column!));
+
+    const expectedOf = (c: typeof compared[number], row: SheetRow) => {
+        if (c.derive) return c.derive.evaluate(column => String(row[sourceIndexOf.get(column)!] ?? '').trim());
+        const value = String(row[c.sIdx] ?? '').trim();
+        return c.translate && value !== '' ? c.translate(value) : value;
+    };
+
+    // Values an expression cannot be evaluated on match nothing
+    const expectedOrNone = (c: typeof compared[number], row: SheetRow) => {
+        try {
+            return expectedOf(c, row);
+        } catch (error) {
+            if (error instanceof ExpressionError) return null;
+            throw error;
+        }
+    };
+
+    // Totals of mapped columns compared between the files, optionally per group
+    const reconciliation = compileReconciliation(settings.reconciliation || [], name => {
+        const c = compared.find(item => item.column === name);
+        return c && {
+            source: row => expectedOrNone(c, row) ?? '',
+            target: row => String(row[c.tIdx] ?? '').trim(),
+            comparison: c.cfg.comparison
+        };
+    });
+
+    const compareRows = (key: string, parts: string[], s: KeyedRow, t: KeyedRow) => {
+        const sRow = s.row;
+        const tRow = t.row;
+
+        for (const c of compared) {
+            const { cfg, sIdx, tIdx, column } = c;
+            const original = String(sRow[sIdx] ?? '').trim();
+            const tVal = String(tRow[tIdx] ?? '').trim();
+            let sVal: string | null = null;
+            let failure: string | null = null;
+            try {
+                sVal = expectedOf(c, sRow);
+            } catch (error) {
+                if (!(error instanceof ExpressionError)) throw error;
+                failure = error.message;
+            }
+
+            if (failure !== null) {
+                results.push({
+                    key,
+                    keyParts: parts,
+                    type: 'expression_error',
+                    severity: cfg.mismatchSeverity,
+                    column,
+                    message: `${cfg.expression}: ${failure}`,
+                    actual: tVal,
+                    sourceRow: s.rowNumber,
+                    targetRow: t.rowNumber
+                });
+            } else if (sVal === null) {
+                results.push({
+                    key,
+                    keyParts: parts,
+                    type: 'translation_missing',
+                    severity: cfg.mismatchSeverity,
+                    column,
+                    message: `Value '${original}' not found in codebook ${getCodebook(cfg.translate!.codebookFileId).name}`,
+                    expected: original,
+                    actual: tVal,
+                    sourceRow: s.rowNumber,
+                    targetRow: t.rowNumber
+                });
+            } else if (!valuesEqual(sVal, tVal, cfg.comparison)) {
+                results.push({
+                    key,
+                    keyParts: parts,
+                    type: 'value_mismatch',
+                    severity: cfg.mismatchSeverity,
+                    column,
+                    message: cfg.translate ? `'${original}' translates to '${sVal}'` : undefined,
+                    expected: sVal,
+                    actual: tVal,
+                    sourceRow: s.rowNumber,
+                    targetRow: t.rowNumber
+                });
+            }
+
+            // Check Column Rules on the target value
+            for (const rule of cfg.rules) {
+                const violation = evaluateRule(rule, tVal, ruleContext);
+                if (violation) {
+                    results.push({
+                        key,
+                        keyParts: parts,
+                        type: rule.rule_type === 'exists_in_codebook' ? 'codebook_violation' : 'rule_violation',
+                        severity: rule.severity,
+                        rule: rule.rule_type,
+                        column,
+                        message: violation,
+                        actual: tVal,
+                        sourceRow: s.rowNumber,
+                        targetRow: t.rowNumber
+                    });
+                }
+            }
+        }
+    };
+
+    // Missing and extra rows with the severity set for them, or not at all
+    const reportUnmatched = (list: Issue[], issue: Issue) => {
+        const severity = unmatchedRows[issue.type as keyof UnmatchedRowSettings];
+        if (severity === 'off') return;
+        list.push({ ...issue, severity });
+    };
+
+    // Multiset comparison of a duplicate group: identical rows pair up
+    // regardless of order, leftovers are paired up in file order and compared,
+    // and whatever remains on either side is a missing or extra row.
+    const compareGroups = (key: string, parts: string[], sGroup: KeyedRow[], tGroup: KeyedRow[]) => {
+        const signature = (row: SheetRow, side: 'sIdx' | 'tIdx') => JSON.stringify(compared.map(c =>
+            normalizeValue((side === 'sIdx' ? expectedOrNone(c, row) : String(row[c.tIdx] ?? '')) ?? '\u0000', c.cfg.comparison)));
+
+        const unmatchedTarget = [...tGroup];
+        const unmatchedSource: typeof sGroup = [];
+        for (const s of sGroup) {
+            const sig = signature(s.row, 'sIdx');
+            const matchIdx = unmatchedTarget.findIndex(t => signature(t.row, 'tIdx') === sig);
+            if (matchIdx >= 0) {
+                // Values are equal, but codebook checks still apply to the target row
+                compareRows(key, parts, s, unmatchedTarget.splice(matchIdx, 1)[0]);
+            } else {
+                unmatchedSource.push(s);
+            }
+        }
+
+        const pairs = Math.min(unmatchedSource.length, unmatchedTarget.length);
+        for (let i = 0; i < pairs; i++) {
+            compareRows(key, parts, unmatchedSource[i], unmatchedTarget[i]);
+        }
+
+        for (const s of unmatchedSource.slice(pairs)) {
+            reportUnmatched(results, {
+                key,
+                keyParts: parts,
+                type: 'missing_row',
+                message: `Row ${s.rowNumber} with Key ${key} has no counterpart in Target file`,
+                sourceRow: s.rowNumber
+            });
+        }
+        for (const t of unmatchedTarget.slice(pairs)) {
+            reportUnmatched(extras, {
+                key,
+                keyParts: parts,
+                type: 'extra_row',
+                message: `Row ${t.rowNumber} with Key ${key} has no counterpart in Source file`,
+                targetRow: t.rowNumber
+            });
+        }
+    };
+
+    // Duplicate Keys are not an issue when duplicate groups are compared as multisets
+    const reportDuplicate = (key: string, parts: string[], group: KeyedRow[], type: string, fileLabel: string) => {
+        const rows = group.map(g => g.rowNumber);
+        duplicates.push({
+            key,
+            keyParts: parts,
+            type,
+            message: `Key ${key} appears ${group.length} times in ${fileLabel} file (rows ${rows.join(', ')})`,
+            [type === 'duplicate_key_source' ? 'sourceRow' : 'targetRow']: rows[0],
+            rows
+        });
+    };
+
+    try {
+        const rowsTotal = await spill(sourceFile, 'source', sourceKeyIdxs) + await spill(targetFile, 'target', targetKeyIdxs);
+
+        // Both files are walked key by key (sorted-merge join)
+        let rowsProcessed = 0;
+        let nextReport = PROGRESS_EVERY;
+        for (const { displayParts, source: sGroup, target: tGroup } of store.groups()) {
+            rowsProcessed += sGroup.length + tGroup.length;
+            if (rowsProcessed >= nextReport) {
+                nextReport = rowsProcessed + PROGRESS_EVERY;
+                signal?.throwIfAborted();
+                onProgress?.({ phase: 'compare', rowsProcessed, rowsTotal });
+                await new Promise(resolve => setImmediate(resolve));
+            }
+
+            // Human readable form of a composite key, e.g. "ACME | 2024-001 | 3"
+            const key = displayParts.join(' | ');
+
+            if (!settings.duplicateKeysAsMultiset) {
+                if (sGroup.length > 1) reportDuplicate(key, displayParts, sGroup, 'duplicate_key_source', 'Source');
+                if (tGroup.length > 1) reportDuplicate(key, displayParts, tGroup, 'duplicate_key_target', 'Target');
+            }
+
+            if (tGroup.length === 0) {
+                // 1. Missing in Target
+                reportUnmatched(results, {
+                    key,
+                    keyParts: displayParts,
+                    type: 'missing_row',
+                    message: `Row with Key ${key} missing in Target file`,
+                    sourceRow: sGroup[0].rowNumber
+                });
+            } else if (sGroup.length === 0) {
+                // 2. Extra in Target
+                reportUnmatched(extras, {
+                    key,
+                    keyParts: displayParts,
+                    type: 'extra_row',
+                    message: `Row with Key ${key} extra in Target file`,
+                    targetRow: tGroup[0].rowNumber
+                });
+            } else if (settings.duplicateKeysAsMultiset && (sGroup.length > 1 || tGroup.length > 1)) {
+                compareGroups(key, displayParts, sGroup, tGroup);
+            } else {
+                // Compare Rows (first occurrence of a duplicated key, the duplicates are reported above)
+                compareRows(key, displayParts, sGroup[0], tGroup[0]);
+            }
+        }
+    } finally {
+        store.close();
+    }
+
+    // Groups come in key order, issues are reported in file order
+    const bySourceRow = (a: Issue, b: Issue) => (a.sourceRow ?? 0) - (b.sourceRow ?? 0);
+    duplicates.sort((a, b) => Number(a.type === 'duplicate_key_target') - Number(b.type === 'duplicate_key_target') || (a.rows![0] - b.rows![0]));
+    results.sort(bySourceRow);
+    extras.sort((a, b) => (a.targetRow ?? 0) - (b.targetRow ?? 0));
+
+    // Failed aggregate checks are named by their group
+    const reconciliationResults = reconciliation.results();
+    const aggregates: Issue[] = reconciliationResults.filter(r => !r.passed).map(r => ({
+        key: r.group ?? '',
+        type: 'aggregate_mismatch',
+        severity: r.severity,
+        column: r.column,
+        message: `${describeCheck(r)}${r.group !== undefined ? ` '${r.group}'` : ''}: source ${r.source ?? 'none'}, target ${r.target ?? 'none'}`,
+        expected: r.source === null ? undefined : String(r.source),
+        actual: r.target === null ? undefined : String(r.target)
+    }));
+
+    // Column rule issues come in file order already, the source file first
+    const issues = [...structureIssues.filter(issue => !isDerived(issue)), ...aggregates, ...duplicates, ...results, ...columnIssues, ...extras];
+
+    // Row level issues (missing, extra, duplicate rows) are errors unless set otherwise
+    for (const r of issues) {
+        r.severity = r.severity || 'error';
+    }
+
+    return { sourceFile, targetFile, keyColumns, mappingSnapshot, issues, reconciliation: reconciliationResults };
+}
+
+// Filter of a file's rows; a filter on a column the file does not have stops the validation
+function compileRowFilter(filter: RowFilter | undefined, columns: FileColumnRow[], fileLabel: string) {
+    try {
+        return rowFilter(filter, columns, fileLabel);
+    } catch (error) {
+        if (error instanceof RowFilterError) throw new ValidationSetupError(error.message);
+        throw error;
+    }
+}
+
+// Aggregate checks of a project; a check on a column that is not mapped, or with too
+// many groups, stops the validation
+function compileReconciliation(checks: AggregateCheck[], resolve: (column: string) => ReconciledColumn | undefined) {
+    const setupError = (error: unknown) => error instanceof ReconciliationError ? new ValidationSetupError(error.message) : error;
+    try {
+        const reconciliation = createReconciliation(checks, resolve);
+        return {
+            add: (side: Side, row: SheetRow) => {
+                try {
+                    reconciliation.add(side, row);
+                } catch (error) {
+                    throw setupError(error);
+                }
+            },
+            results: reconciliation.results
+        };
+    } catch (error) {
+        throw setupError(error);
+    }
+}
+
+// Checks the column rules of one file on a row. Rules of columns the file does
+// not have are skipped.
+function columnRuleChecker(file: FileRow, side: Side, rules: ColumnRule[], ctx: RuleContext, issues: Issue[]) {
+    const columns = db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(file.id) as FileColumnRow[];
+    const checks = rules
+        .filter(rule => rule.file_type === side)
+        .map(rule => ({
+            rule,
+            idx: columns.find(c => c.column_name === rule.column_name)?.column_index,
+            // unique: first row of every value seen so far
+            seen: rule.rule_type === 'unique' ? new Map<string, number>() : null
+        }))
+        .filter(c => c.idx !== undefined);
+
+    return (row: SheetRow, rowNumber: number, key: string, keyParts?: string[]) => {
+        for (const { rule, idx, seen } of checks) {
+            const value = String(row[idx] ?? '').trim();
+            let violation = evaluateRule(rule, value, ctx);
+            if (seen && value !== '') {
+                const firstRow = seen.get(value);
+                if (firstRow === undefined) seen.set(value, rowNumber);
+                else violation = `Value '${value}' already in row ${firstRow}`;
+            }
+            if (violation) {
+                issues.push({
+                    key,
+                    keyParts,
+                    type: rule.rule_type === 'exists_in_codebook' ? 'codebook_violation' : 'rule_violation',
+                    severity: rule.severity,
+                    rule: rule.rule_type,
+                    column: rule.column_name,
+                    message: violation,
+                    actual: value,
+                    [side === 'source' ? 'sourceRow' : 'targetRow']: rowNumber
+                });
+            }
+        }
+    };
+}
+
+// A target file on its own: the declared columns must be there, and every row is
+// checked against the schema and the target's column rules. Rows have no key to
+// match by and are named by their row number.
+async function validateSingleFile(
+    targetFile: FileRow, schema: FileSchema | undefined, structure: StructureSettings = {}, filter: RowFilter | undefined,
+    columnRules: ColumnRule[], ctx: RuleContext, options: ValidateOptions
+): Promise<ValidationOutcome> {
+    const { onProgress, signal } = options;
+    const issues: Issue[] = [];
+
+    if (schema) {
+        const columnNames = (db.prepare('SELECT column_name FROM file_columns WHERE file_id = ? ORDER BY column_index').all(targetFile.id) as Pick<FileColumnRow, 'column_name'>[])
+            .map(c => c.column_name);
+        // Declared columns are required, each with its own severity; undeclared ones are reported only when not allowed
+        issues.push(...checkStructure(
+            schema.columns.map(c => ({ name: c.name, severity: c.severity || 'error' })),
+            columnNames,
+            { ...structure, extra_column: schema.allowExtraColumns === false ? structure.extra_column ?? 'warning' : 'off' }
+        ));
+    }
+
+    const rules = schema ? [...schemaRules(schema), ...columnRules] : columnRules;
+    const checkColumnRules = columnRuleChecker(targetFile, 'target', rules, ctx, issues);
+    const inScope = compileRowFilter(filter, db.prepare('SELECT * FROM file_columns WHERE file_id = ?').all(targetFile.id) as FileColumnRow[], 'Target');
+
+    const rowsTotal = await countRows(targetFile);
+    let rowsProcessed = 0;
+    for await (const row of streamRows(targetFile)) {
+        const rowNumber = row.__rowNum__ + 1;
+        if (inScope(row)) checkColumnRules(row, rowNumber, `Row ${rowNumber}`);
+        if (++rowsProcessed % PROGRESS_EVERY === 0) {
+            signal?.throwIfAborted();
+            onProgress?.({ phase: 'target', rowsProcessed, rowsTotal: Math.max(rowsTotal, rowsProcessed) });
+        }
+    }
+
+    return { sourceFile: null, targetFile, keyColumns: [], mappingSnapshot: [], issues };
+}
@@ -0,0 +1,103 @@
+import db, { type WaiverRow, type RunRow, type IssueRow } from './database.ts';
+import { compareValues } from './filters.ts';
+
+// Waivers (issue_waivers): differences accepted as known, with a reason and an author.
+// A waiver matches issues by any combination of type, column and key or key range.
+// Waived issues stay in the run but are left out of its open counts, so a run with
+// only accepted differences passes.
+
+export interface WaiverInput {
+    issueType?: string | null;
+    column?: string | null;
+    key?: string | null;     // exact key of a single issue
+    keyFrom?: string | null; // inclusive key range, either end may be left open
+    keyTo?: string | null;
+    reason: string;
+    author: string;
+}
+
+const isText = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+const present = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const textOrNull = (value: unknown) => present(value) ? value.trim() : null;
+
+// Returns an error message for an invalid waiver, null when it is ok
+export function checkWaiver(waiver: Partial<WaiverInput> | null): string | null {
+    if (!waiver || typeof waiver !== 'object' || Array.isArray(waiver)) return 'Waiver must be an object';
+    for (const field of ['issueType', 'column', 'key', 'keyFrom', 'keyTo', 'reason', 'author'] as const) {
+        if (!isText(waiver[field])) return `${field} must be text`;
+    }
+    if (!present(waiver.reason)) return 'A waiver needs a reason';
+    if (!present(waiver.author)) return 'A waiver needs an author';
+    if (present(waiver.key) && (present(waiver.keyFrom) || present(waiver.keyTo))) {
+        return 'A waiver matches either a key or a key range, not both';
+    }
+    if (![waiver.issueType, waiver.column, waiver.key, waiver.keyFrom, waiver.keyTo].some(present)) {
+        return 'A waiver needs an issue type, a column, a key or a key range';
+    }
+    return null;
+}
+
+export function listWaivers(projectId: number | string) {
+    return db.prepare('SELECT * FROM issue_waivers WHERE project_id = ? ORDER BY id').all(projectId) as WaiverRow[];
+}
+
+export function createWaiver(projectId: number | string, waiver: WaiverInput) {
+    const info = db.prepare(`
+        INSERT INTO issue_waivers (project_id, issue_type, column_name, issue_key, key_from, key_to, reason, author)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        projectId, textOrNull(waiver.issueType), textOrNull(waiver.column), textOrNull(waiver.key),
+        textOrNull(waiver.keyFrom), textOrNull(waiver.keyTo), waiver.reason.trim(), waiver.author.trim()
+    );
+    return db.prepare('SELECT * FROM issue_waivers WHERE id = ?').get(info.lastInsertRowid) as WaiverRow;
+}
+
+// Deletes a waiver, the issues it accepted are open again in the runs that had them
+export function deleteWaiver(waiverId: number | string): boolean {
+    return db.transaction(() => {
+        const runIds = (db.prepare('SELECT DISTINCT run_id FROM validation_issues WHERE waiver_id = ?').all(waiverId) as Pick<IssueRow, 'run_id'>[])
+            .map(r => r.run_id);
+        const info = db.prepare('DELETE FROM issue_waivers WHERE id = ?').run(waiverId);
+        for (const runId of runIds) applyWaivers(runId);
+        return info.changes > 0;
+    })();
+}
+
+// Keys are compared like filter values: as numbers when both are numbers, as text otherwise
+const inKeyRange = (waiver: WaiverRow, key: string) =>
+    (!waiver.key_from || (key !== '' && compareValues(key, waiver.key_from) >= 0)) &&
+    (!waiver.key_to || (key !== '' && compareValues(key, waiver.key_to) <= 0));
+
+// Marks the issues of a run accepted by the waivers of its project and recounts the
+// open issues. Earlier marks are replaced, so it is repeated whenever waivers change.
+export function applyWaivers(runId: number | string) {
+    const run = db.prepare('SELECT id, project_id FROM validation_runs WHERE id = ?').get(runId) as Pick<RunRow, 'id' | 'project_id'> | undefined;
+    if (!run) return;
+    const markIssue = db.prepare('UPDATE validation_issues SET waiver_id = ? WHERE id = ?');
+
+    db.transaction(() => {
+        db.prepare('UPDATE validation_issues SET waiver_id = NULL WHERE run_id = ? AND waiver_id IS NOT NULL').run(run.id);
+
+        // The first matching waiver is the one recorded on the issue
+        for (const waiver of listWaivers(run.project_id)) {
+            const where = ['run_id = ?', 'waiver_id IS NULL'];
+            const params: (number | string)[] = [run.id];
+            if (waiver.issue_type) { where.push('issue_type = ?'); params.push(waiver.issue_type); }
+            if (waiver.column_name) { where.push('column_name = ?'); params.push(waiver.column_name); }
+            if (waiver.issue_key) { where.push('issue_key = ?'); params.push(waiver.issue_key); }
+
+            const candidates = db.prepare(`SELECT id, issue_key FROM validation_issues WHERE ${where.join(' AND ')}`).all(...params) as Pick<IssueRow, 'id' | 'issue_key'>[];
+            for (const issue of candidates) {
+                if (inKeyRange(waiver, issue.issue_key ?? '')) markIssue.run(waiver.id, issue.id);
+            }
+        }
+
+        const severityCounts: Record<string, number> = { error: 0, warning: 0, info: 0 };
+        const openCounts = db.prepare('SELECT severity, COUNT(*) AS count FROM validation_issues WHERE run_id = ? AND waiver_id IS NULL GROUP BY severity').all(run.id) as { severity: string; count: number }[];
+        for (const { severity, count } of openCounts) severityCounts[severity] = count;
+        const { waived } = db.prepare('SELECT COUNT(*) AS waived FROM validation_issues WHERE run_id = ? AND waiver_id IS NOT NULL').get(run.id) as { waived: number };
+
+        db.prepare('UPDATE validation_runs SET severity_counts = ?, waived_count = ? WHERE id = ?')
+            .run(JSON.stringify(severityCounts), waived, run.id);
+    })();
+}
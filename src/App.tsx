@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
 import './App.css';
 import MappingView from './MappingView';
+import SheetLayoutEditor from './SheetLayoutEditor';
+import CodebookEditor from './CodebookEditor';
+import ColumnProfileTable from './ColumnProfileTable';
+import type { ColumnProfile } from './columnProfile';
 
 import ValidationResultView from './ValidationResultView';
 
@@ -43,10 +47,19 @@ function App() {
     id: number;
     file_type: 'source' | 'target' | 'codebook';
     original_filename: string;
-    columns: { id: number, column_name: string, sample_value: string }[];
+    sheet_name: string | null;
+    header_row: number | null;
+    csv_options: string | null;
+    version: number;
+    columns: { id: number, column_name: string, sample_value: string, profile: ColumnProfile | null }[];
+    versions: { id: number, version: number, original_filename: string, uploaded_at: string }[];
   }
 
   const [projectFiles, setProjectFiles] = useState<FileInfo[]>([]);
+  const [layoutFileId, setLayoutFileId] = useState<number | null>(null);
+  const [codebookFileId, setCodebookFileId] = useState<number | null>(null);
+  // 'single': the target file is checked against a declared schema, without a source
+  const [mode, setMode] = useState<'compare' | 'single'>('compare');
 
   useEffect(() => {
     // Reset view mode when project changes
@@ -61,14 +74,27 @@ function App() {
     const res = await fetch(`/api/projects/${id}/details`);
     const data = await res.json();
     setProjectFiles(data.files);
+    const settings = await (await fetch(`/api/projects/${id}/settings`)).json();
+    setMode(settings.mode || 'compare');
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: 'source' | 'target' | 'codebook') => {
+  const changeMode = async (newMode: 'compare' | 'single') => {
+    const res = await fetch(`/api/projects/${selectedProjectId}/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode: newMode })
+    });
+    if (res.ok) setMode(newMode);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: 'source' | 'target' | 'codebook', replaceFileId?: number) => {
     if (!selectedProjectId || !e.target.files?.[0]) return;
 
     const formData = new FormData();
     formData.append('file', e.target.files[0]);
     formData.append('fileType', type);
+    if (replaceFileId) formData.append('replaceFileId', String(replaceFileId));
+    e.target.value = '';
 
     const res = await fetch(`/api/projects/${selectedProjectId}/files`, {
       method: 'POST',
@@ -76,33 +102,106 @@ function App() {
     });
 
     if (res.ok) {
+      const data = await res.json();
+      // Let the user check the detected layout when it is not the obvious one
+      if (data.sheets.length > 1 || data.layout.headerRow !== data.sheets[0].firstRow) {
+        setLayoutFileId(data.fileId);
+      }
+      if (data.replaced?.removedColumns.length > 0) {
+        alert(`Version ${data.replaced.version} uploaded. These columns are no longer in the file, their mappings were removed:\n${data.replaced.removedColumns.join(', ')}`);
+      }
       fetchProjectDetails(selectedProjectId);
     } else {
-      alert('Upload failed');
+      const data = await res.json().catch(() => ({}));
+      alert('Upload failed' + (data.error ? ': ' + data.error : ''));
     }
   };
 
+  // Deleting the current version deletes the whole history of the file
+  const deleteFile = async (fileId: number, message: string) => {
+    if (!selectedProjectId || !confirm(message)) return;
+    const res = await fetch(`/api/files/${fileId}`, { method: 'DELETE' });
+    if (!res.ok) alert('Deleting the file failed');
+    fetchProjectDetails(selectedProjectId);
+  };
+
+  const describeCsv = (options: string) => {
+    const { encoding, delimiter } = JSON.parse(options);
+    return `${delimiter === '\t' ? 'tab' : delimiter} separated, ${encoding}`;
+  };
+
+  const renderFile = (file: FileInfo) => (
+    <div key={file.id} style={{ marginBottom: '0.75rem' }}>
+      <p>
+        <strong>Loaded:</strong> {file.original_filename}
+        {file.versions.length > 1 && <span style={{ color: '#666', fontSize: '0.85em' }}> (version {file.version})</span>}
+      </p>
+      <p style={{ fontSize: '0.85em', color: '#666' }}>
+        {file.csv_options ? `CSV (${describeCsv(file.csv_options)})` : file.sheet_name ? `Sheet "${file.sheet_name}"` : 'First sheet'}, header on row {(file.header_row ?? 0) + 1}{' '}
+        {layoutFileId !== file.id && <button onClick={() => setLayoutFileId(file.id)} style={{ fontSize: '0.85em', padding: '2px 6px' }}>Change</button>}{' '}
+        {file.file_type === 'codebook' && codebookFileId !== file.id && (
+          <button onClick={() => setCodebookFileId(file.id)} style={{ fontSize: '0.85em', padding: '2px 6px' }} title="Code, label and validity columns">Configure Codebook</button>
+        )}
+      </p>
+      {layoutFileId === file.id && (
+        <SheetLayoutEditor
+          fileId={file.id}
+          onSaved={() => {
+            setLayoutFileId(null);
+            fetchProjectDetails(selectedProjectId!);
+          }}
+          onClose={() => setLayoutFileId(null)}
+        />
+      )}
+      {codebookFileId === file.id && <CodebookEditor fileId={file.id} onClose={() => setCodebookFileId(null)} />}
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', justifyContent: 'center', fontSize: '0.85em', marginBottom: '0.5rem' }}>
+        <label>
+          Upload new version: <input type="file" onChange={(e) => handleFileUpload(e, file.file_type, file.id)} />
+        </label>
+        <button
+          onClick={() => deleteFile(file.id, `Delete ${file.original_filename}${file.versions.length > 1 ? ` and its ${file.versions.length - 1} older versions` : ''}?`)}
+          style={{ fontSize: '0.85em', padding: '2px 6px', background: '#dc3545' }}
+        >
+          Delete
+        </button>
+      </div>
+      <details>
+        <summary>View Columns ({file.columns.length}){file.columns[0]?.profile && `, ${file.columns[0].profile.rows} rows`}</summary>
+        <ColumnProfileTable columns={file.columns} />
+      </details>
+      {file.versions.length > 1 && (
+        <details>
+          <summary>Version History ({file.versions.length})</summary>
+          <ul style={{ textAlign: 'left' }}>
+            {file.versions.map(v => (
+              <li key={v.id}>
+                v{v.version}: {v.original_filename} <span style={{ color: '#888', fontSize: '0.8em' }}>({v.uploaded_at})</span>
+                {v.id !== file.id && (
+                  <button onClick={() => deleteFile(v.id, `Delete version ${v.version} (${v.original_filename})?`)} style={{ fontSize: '0.8em', padding: '1px 5px', marginLeft: '6px', background: '#dc3545' }}>
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+
   const renderFileSection = (type: 'source' | 'target' | 'codebook', title: string) => {
-    const file = projectFiles.find(f => f.file_type === type);
+    const files = projectFiles.filter(f => f.file_type === type);
+    // Several codebooks can be used, source and target are replaced by new versions
+    const canAdd = type === 'codebook' || files.length === 0;
     return (
       <div className="upload-sect">
         <h3>{title}</h3>
-        {file ? (
-          <div>
-            <p><strong>Loaded:</strong> {file.original_filename}</p>
-            <details>
-              <summary>View Columns ({file.columns.length})</summary>
-              <ul style={{ textAlign: 'left', maxHeight: '200px', overflowY: 'auto' }}>
-                {file.columns.map(c => (
-                  <li key={c.id}>
-                    {c.column_name} <span style={{ color: '#888', fontSize: '0.8em' }}>({c.sample_value})</span>
-                  </li>
-                ))}
-              </ul>
-            </details>
-          </div>
-        ) : (
-          <input type="file" onChange={(e) => handleFileUpload(e, type)} />
+        {files.map(renderFile)}
+        {canAdd && (
+          <label>
+            {files.length > 0 && 'Add codebook: '}
+            <input type="file" onChange={(e) => handleFileUpload(e, type)} />
+          </label>
         )}
       </div>
     );
@@ -141,17 +240,36 @@ function App() {
               <button onClick={() => setSelectedProjectId(null)}>Back to Projects</button>
               <h2>Project #{selectedProjectId}</h2>
 
-              {renderFileSection('source', '1. Source File (Source of Truth / Vzor)')}
-              {renderFileSection('target', '2. Target File (Export to Check)')}
-              {renderFileSection('codebook', '3. Codebooks (Optional - for value validation)')}
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ marginRight: '1rem' }}>
+                  <input type="radio" checked={mode === 'compare'} onChange={() => changeMode('compare')} /> Compare the export with its source
+                </label>
+                <label>
+                  <input type="radio" checked={mode === 'single'} onChange={() => changeMode('single')} /> Check a single file against a schema
+                </label>
+              </div>
+
+              {mode === 'compare' ? (
+                <>
+                  {renderFileSection('source', '1. Source File (Source of Truth / Vzor)')}
+                  {renderFileSection('target', '2. Target File (Export to Check)')}
+                  {renderFileSection('codebook', '3. Codebooks (Optional - for value validation)')}
+                </>
+              ) : (
+                <>
+                  {renderFileSection('target', '1. File to Check')}
+                  {renderFileSection('codebook', '2. Codebooks (Optional - for value validation)')}
+                </>
+              )}
 
               <div className="status">
-                {projectFiles.filter(f => f.file_type === 'source' || f.file_type === 'target').length >= 2 && (
+                {/* A target on its own is validated against its column rules */}
+                {projectFiles.some(f => f.file_type === 'target') && (
                   <button
                     style={{ marginTop: '1rem', background: '#28a745' }}
                     onClick={() => setViewMode('mapping')}
                   >
-                    Proceed to Mapping & Validation &gt;
+                    {mode === 'single' ? 'Proceed to Schema & Validation' : 'Proceed to Mapping & Validation'} &gt;
                   </button>
                 )}
               </div>
@@ -162,6 +280,7 @@ function App() {
             <MappingView
               projectId={selectedProjectId}
               files={projectFiles}
+              mode={mode}
               onBack={() => setViewMode('detail')}
               onNext={() => setViewMode('validation')}
             />
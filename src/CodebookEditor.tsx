@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+
+interface CodebookConfig {
+    keyColumn?: string;
+    labelColumns?: string[];
+    validFromColumn?: string;
+    validToColumn?: string;
+    validOn?: string;
+}
+
+interface CodebookInfo {
+    config: CodebookConfig;
+    headers: string[];
+    keyColumn: string;
+    entryCount: number;
+    expired: number;
+    preview: { rowNumber: number; values: Record<string, string> }[];
+}
+
+interface Props {
+    fileId: number;
+    onClose: () => void;
+}
+
+const cellStyle = { padding: '3px 6px', border: '1px solid #ddd', maxWidth: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' as const };
+
+export default function CodebookEditor({ fileId, onClose }: Props) {
+    const [info, setInfo] = useState<CodebookInfo | null>(null);
+    const [config, setConfig] = useState<CodebookConfig>({});
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/files/${fileId}/codebook`)
+            .then(res => res.json())
+            .then((data: CodebookInfo) => {
+                setInfo(data);
+                setConfig({ ...data.config, keyColumn: data.keyColumn });
+            })
+            .catch(console.error);
+    }, [fileId]);
+
+    if (!info) return <p>Loading codebook...</p>;
+
+    const labels = config.labelColumns || [];
+    const toggleLabel = (column: string, checked: boolean) => {
+        setConfig({ ...config, labelColumns: checked ? [...labels, column] : labels.filter(c => c !== column) });
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/files/${fileId}/codebook`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(config)
+        });
+        const data = await res.json();
+        setSaving(false);
+        if (res.ok) {
+            setInfo(data);
+        } else {
+            alert('Saving codebook failed: ' + data.error);
+        }
+    };
+
+    const columnSelect = (field: 'validFromColumn' | 'validToColumn') => (
+        <select value={config[field] || ''} onChange={(e) => setConfig({ ...config, [field]: e.target.value || undefined })}>
+            <option value="">-- none --</option>
+            {info.headers.map(h => <option key={h} value={h}>{h}</option>)}
+        </select>
+    );
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', margin: '0.5rem 0', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                <label>
+                    Code column:{' '}
+                    <select value={config.keyColumn || ''} onChange={(e) => setConfig({ ...config, keyColumn: e.target.value })}>
+                        {info.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                </label>
+                <span>
+                    Label columns:{' '}
+                    {info.headers.filter(h => h !== config.keyColumn).map(h => (
+                        <label key={h} style={{ marginRight: '0.5rem' }}>
+                            <input type="checkbox" checked={labels.includes(h)} onChange={(e) => toggleLabel(h, e.target.checked)} /> {h}
+                        </label>
+                    ))}
+                </span>
+            </div>
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                <label>Valid from: {columnSelect('validFromColumn')}</label>
+                <label>Valid to: {columnSelect('validToColumn')}</label>
+                {(config.validFromColumn || config.validToColumn) && (
+                    <label title="Entries must be valid on this day, empty = the day of validation">
+                        Valid on:{' '}
+                        <input type="date" value={config.validOn || ''} onChange={(e) => setConfig({ ...config, validOn: e.target.value || undefined })} />
+                    </label>
+                )}
+            </div>
+
+            <div style={{ color: '#666', marginBottom: '0.25rem' }}>
+                {info.entryCount} valid entries{info.expired > 0 && `, ${info.expired} not valid on the day`} (saved configuration)
+            </div>
+            <div style={{ overflowX: 'auto', maxHeight: '250px' }}>
+                <table style={{ borderCollapse: 'collapse', fontSize: '0.85em' }}>
+                    <thead>
+                        <tr style={{ background: '#eee' }}>
+                            <th style={cellStyle}>Row</th>
+                            {info.headers.map(h => <th key={h} style={{ ...cellStyle, background: h === info.keyColumn ? '#cfe2ff' : undefined }}>{h}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {info.preview.map(entry => (
+                            <tr key={entry.rowNumber}>
+                                <td style={{ ...cellStyle, color: '#888' }}>{entry.rowNumber}</td>
+                                {info.headers.map(h => <td key={h} style={cellStyle}>{entry.values[h]}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem' }}>
+                <button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save Codebook Settings'}</button>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
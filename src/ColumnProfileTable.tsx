@@ -0,0 +1,60 @@
+import { type ColumnProfile, isKeyCandidate, distinctOf, listCounts } from './columnProfile';
+
+interface ProfiledColumn {
+    id: number;
+    column_name: string;
+    sample_value: string;
+    profile?: ColumnProfile | null;
+}
+
+const cellStyle = { padding: '3px 6px', borderBottom: '1px solid #eee', maxWidth: '220px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' as const };
+
+// Profiles of all columns of a file
+export default function ColumnProfileTable({ columns }: { columns: ProfiledColumn[] }) {
+    return (
+        <div style={{ overflowX: 'auto', maxHeight: '300px', textAlign: 'left' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.8em', width: '100%' }}>
+                <thead>
+                    <tr style={{ background: '#eee' }}>
+                        <th style={cellStyle}>Column</th>
+                        <th style={cellStyle}>Type</th>
+                        <th style={cellStyle}>Empty</th>
+                        <th style={cellStyle}>Distinct</th>
+                        <th style={cellStyle}>Min</th>
+                        <th style={cellStyle}>Max</th>
+                        <th style={cellStyle}>Max Len</th>
+                        <th style={cellStyle}>Top Values</th>
+                        <th style={cellStyle}>Patterns</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {columns.map(c => {
+                        const p = c.profile;
+                        return (
+                            <tr key={c.id}>
+                                <td style={cellStyle}>
+                                    {c.column_name}
+                                    {isKeyCandidate(p) && <span style={{ marginLeft: '4px', color: 'white', background: '#28a745', borderRadius: '6px', padding: '0 4px' }} title="Unique and never empty">key?</span>}
+                                </td>
+                                {p ? (
+                                    <>
+                                        <td style={cellStyle}>{p.type}</td>
+                                        <td style={{ ...cellStyle, color: p.empty > 0 ? '#856404' : undefined }}>{p.empty}</td>
+                                        <td style={cellStyle}>{distinctOf(p)}</td>
+                                        <td style={cellStyle} title={p.min ?? ''}>{p.min}</td>
+                                        <td style={cellStyle} title={p.max ?? ''}>{p.max}</td>
+                                        <td style={cellStyle}>{p.maxLength}</td>
+                                        <td style={cellStyle} title={listCounts(p.top)}>{listCounts(p.top)}</td>
+                                        <td style={cellStyle} title={listCounts(p.patterns)}>{listCounts(p.patterns)}</td>
+                                    </>
+                                ) : (
+                                    <td style={{ ...cellStyle, color: '#888' }} colSpan={8}>Not profiled, sample: {c.sample_value}</td>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
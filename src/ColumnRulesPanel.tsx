@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import RuleEditor, { type Rule } from './RuleEditor';
+
+interface ColumnRule extends Rule {
+    file_type: 'source' | 'target';
+    column_name: string;
+}
+
+interface Props {
+    projectId: number;
+    files: { id: number; file_type: string; original_filename: string; columns: { column_name: string; sample_value: string }[] }[];
+    onClose?: () => void;
+}
+
+const FILE_LABELS = { source: 'Source', target: 'Target' };
+
+// Rules on single columns of the source or target file. They are checked on every
+// row of that file, mapped or not, matched or not.
+export default function ColumnRulesPanel({ projectId, files, onClose }: Props) {
+    const [rules, setRules] = useState<ColumnRule[]>([]);
+    const [fileType, setFileType] = useState<'source' | 'target'>('target');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/column-rules`)
+            .then(res => res.json())
+            .then(setRules)
+            .catch(console.error);
+    }, [projectId]);
+
+    const codebookFiles = files.filter(f => f.file_type === 'codebook');
+    const dataFiles = files.filter(f => f.file_type === 'source' || f.file_type === 'target') as (typeof files[number] & { file_type: 'source' | 'target' })[];
+    const file = dataFiles.find(f => f.file_type === fileType) ?? dataFiles[0];
+    if (!file) return null;
+
+    const columnNames: string[] = file.columns.map(c => c.column_name);
+    const rulesOf = (column: string) => rules.filter(r => r.file_type === file.file_type && r.column_name === column);
+    // Rules are kept by column name; columns missing from the current version keep their rules
+    const orphaned = [...new Set(rules.filter(r => r.file_type === file.file_type && !columnNames.includes(r.column_name)).map(r => r.column_name))];
+
+    const setColumnRules = (column: string, columnRules: Rule[]) => {
+        setRules(prev => [
+            ...prev.filter(r => r.file_type !== file.file_type || r.column_name !== column),
+            ...columnRules.map(r => ({ ...r, file_type: file.file_type, column_name: column }))
+        ]);
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/projects/${projectId}/column-rules`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ rules: rules.map(r => ({ file_type: r.file_type, column_name: r.column_name, rule_type: r.rule_type, parameter: r.parameter, severity: r.severity })) })
+        });
+        const data = await res.json();
+        setSaving(false);
+        if (res.ok) {
+            setRules(data);
+        } else {
+            alert('Saving column rules failed: ' + data.error);
+        }
+    };
+
+    const renderRow = (column: string, sample: string | null, missing = false) => (
+        <tr key={column} style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '5px', color: missing ? '#dc3545' : undefined }} title={missing ? 'Not in the current file, the rules are skipped' : undefined}>
+                <strong>{column}</strong>
+            </td>
+            <td style={{ padding: '5px', color: '#666' }}>{sample}</td>
+            <td style={{ padding: '5px' }}>
+                <RuleEditor rules={rulesOf(column)} codebookFiles={codebookFiles} onChange={(columnRules) => setColumnRules(column, columnRules)} singleFile />
+            </td>
+        </tr>
+    );
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <span>Rules checked on every row of the</span>
+                {dataFiles.map(f => (
+                    <button
+                        key={f.id}
+                        onClick={() => setFileType(f.file_type)}
+                        style={{ padding: '2px 8px', background: f.file_type === file.file_type ? '#007bff' : '#6c757d' }}
+                    >
+                        {FILE_LABELS[f.file_type]} ({rules.filter(r => r.file_type === f.file_type).length})
+                    </button>
+                ))}
+                <span>file, mapped or not.</span>
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                    <tr style={{ background: '#eee' }}>
+                        <th style={{ padding: '5px' }}>Column</th>
+                        <th style={{ padding: '5px' }}>Sample</th>
+                        <th style={{ padding: '5px' }}>Rules</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {file.columns.map(c => renderRow(c.column_name, c.sample_value))}
+                    {orphaned.map(column => renderRow(column, null, true))}
+                </tbody>
+            </table>
+            <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem' }}>
+                <button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save Column Rules'}</button>
+                {onClose && <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,100 @@
+export interface Comparison {
+    mode: 'text' | 'text_ci' | 'number' | 'date' | 'boolean';
+    absTolerance?: number;
+    relTolerance?: number;
+    dateFormats?: string[];
+    trueValues?: string[];
+    falseValues?: string[];
+}
+
+interface Props {
+    comparison: Comparison;
+    onChange: (comparison: Comparison) => void;
+}
+
+const MODE_LABELS: Record<Comparison['mode'], string> = {
+    text: 'Text (exact)',
+    text_ci: 'Text (ignore case)',
+    number: 'Number',
+    date: 'Date',
+    boolean: 'Yes / No',
+};
+
+const inputStyle = { padding: '3px', width: '100%', marginTop: '4px', boxSizing: 'border-box' as const };
+
+// Comma separated list <-> array
+const toList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+export default function ComparisonEditor({ comparison, onChange }: Props) {
+    const setNumber = (field: 'absTolerance' | 'relTolerance', text: string) => {
+        const value = text.trim() === '' ? undefined : Number(text.replace(',', '.'));
+        onChange({ ...comparison, [field]: value !== undefined && isNaN(value) ? comparison[field] : value });
+    };
+
+    return (
+        <div style={{ fontSize: '0.85em' }}>
+            <select
+                value={comparison.mode}
+                onChange={(e) => onChange({ mode: e.target.value as Comparison['mode'] })}
+                style={{ padding: '3px', width: '100%' }}
+            >
+                {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                    <option key={mode} value={mode}>{label}</option>
+                ))}
+            </select>
+
+            {comparison.mode === 'number' && (
+                <>
+                    <input
+                        type="text"
+                        defaultValue={comparison.absTolerance ?? ''}
+                        onBlur={(e) => setNumber('absTolerance', e.target.value)}
+                        placeholder="± absolute, e.g. 0.01"
+                        title="Allowed absolute difference"
+                        style={inputStyle}
+                    />
+                    <input
+                        type="text"
+                        defaultValue={comparison.relTolerance !== undefined ? comparison.relTolerance * 100 : ''}
+                        onBlur={(e) => setNumber('relTolerance', e.target.value ? String(Number(e.target.value.replace(',', '.')) / 100) : '')}
+                        placeholder="± relative %"
+                        title="Allowed relative difference in percent"
+                        style={inputStyle}
+                    />
+                </>
+            )}
+
+            {comparison.mode === 'date' && (
+                <input
+                    type="text"
+                    defaultValue={(comparison.dateFormats || []).join(', ')}
+                    onBlur={(e) => onChange({ ...comparison, dateFormats: toList(e.target.value) })}
+                    placeholder="D. M. YYYY, YYYY-MM-DD"
+                    title="Accepted date formats (YYYY, YY, MM, M, DD, D), comma separated. Excel date serials are always accepted."
+                    style={inputStyle}
+                />
+            )}
+
+            {comparison.mode === 'boolean' && (
+                <>
+                    <input
+                        type="text"
+                        defaultValue={(comparison.trueValues || []).join(', ')}
+                        onBlur={(e) => onChange({ ...comparison, trueValues: toList(e.target.value) })}
+                        placeholder="Extra 'yes' values"
+                        title="Besides true, 1, yes, y, ano, a, x"
+                        style={inputStyle}
+                    />
+                    <input
+                        type="text"
+                        defaultValue={(comparison.falseValues || []).join(', ')}
+                        onBlur={(e) => onChange({ ...comparison, falseValues: toList(e.target.value) })}
+                        placeholder="Extra 'no' values"
+                        title="Besides false, 0, no, n, ne"
+                        style={inputStyle}
+                    />
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+
+interface PreviewRow {
+    rowNumber: number;
+    values: Record<string, string>;
+    result?: string;
+    error?: string;
+}
+
+interface Props {
+    projectId: number;
+    expression: string;
+    sourceColumns: string[];
+    onChange: (expression: string) => void;
+}
+
+// Preview is requested once typing pauses for this long
+const PREVIEW_DELAY_MS = 400;
+
+const cellStyle = { padding: '2px 6px', borderBottom: '1px solid #eee' };
+
+// Expression of a derived mapping, with its value on the first rows of the source file
+export default function ExpressionEditor({ projectId, expression, sourceColumns, onChange }: Props) {
+    const [preview, setPreview] = useState<{ columns: string[]; rows: PreviewRow[] } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [functions, setFunctions] = useState<string[]>([]);
+    const [showHelp, setShowHelp] = useState(false);
+
+    useEffect(() => {
+        if (!showHelp || functions.length > 0) return;
+        fetch('/api/expressions/functions')
+            .then(res => res.json())
+            .then(data => setFunctions(data.functions))
+            .catch(console.error);
+    }, [showHelp, functions.length]);
+
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            if (!expression.trim()) {
+                setPreview(null);
+                setError(null);
+                return;
+            }
+            const res = await fetch(`/api/projects/${projectId}/expression-preview`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ expression })
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setPreview(data);
+                setError(null);
+            } else {
+                setPreview(null);
+                setError(data.error);
+            }
+        }, PREVIEW_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [projectId, expression]);
+
+    return (
+        <div style={{ fontSize: '0.85em' }}>
+            <textarea
+                value={expression}
+                onChange={(e) => onChange(e.target.value)}
+                rows={2}
+                placeholder="e.g. [First Name] + ' ' + [Last Name]"
+                style={{ width: '100%', fontFamily: 'monospace', boxSizing: 'border-box', borderColor: error ? '#dc3545' : undefined }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onChange(`${expression}[${e.target.value}]`)}
+                    style={{ padding: '3px' }}
+                >
+                    <option value="">Insert column...</option>
+                    {sourceColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button onClick={() => setShowHelp(!showHelp)} style={{ background: '#6c757d', padding: '2px 8px' }}>Functions</button>
+            </div>
+
+            {showHelp && (
+                <ul style={{ margin: '4px 0', paddingLeft: '1.2rem', fontFamily: 'monospace', color: '#555' }}>
+                    <li>Columns: [Column Name], or name_without_spaces</li>
+                    <li>Operators: + (adds numbers, joins text) - * / % &amp; (joins text), = != &lt; &lt;= &gt; &gt;=, and or not</li>
+                    {functions.map(f => <li key={f}>{f}</li>)}
+                </ul>
+            )}
+
+            {error && <div style={{ color: '#dc3545', marginTop: '4px' }}>{error}</div>}
+
+            {preview && (
+                <table style={{ borderCollapse: 'collapse', marginTop: '4px', width: '100%' }}>
+                    <thead>
+                        <tr style={{ background: '#f5f5f5' }}>
+                            <th style={cellStyle}>Row</th>
+                            {preview.columns.map(c => <th key={c} style={cellStyle}>{c}</th>)}
+                            <th style={cellStyle}>Expected</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {preview.rows.map(row => (
+                            <tr key={row.rowNumber}>
+                                <td style={{ ...cellStyle, color: '#888' }}>{row.rowNumber}</td>
+                                {preview.columns.map(c => <td key={c} style={cellStyle}>{row.values[c]}</td>)}
+                                <td style={{ ...cellStyle, fontWeight: 'bold', color: row.error ? '#dc3545' : undefined }}>{row.error ?? row.result}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -1,32 +1,105 @@
 import { useState, useEffect } from 'react';
+import RuleEditor, { type Rule } from './RuleEditor';
+import ComparisonEditor, { type Comparison } from './ComparisonEditor';
+import TemplatePanel from './TemplatePanel';
+import TranslationEditor, { type Translation } from './TranslationEditor';
+import ColumnRulesPanel from './ColumnRulesPanel';
+import SchemaEditor from './SchemaEditor';
+import ExpressionEditor from './ExpressionEditor';
+import RowFiltersPanel from './RowFiltersPanel';
+import ReconciliationPanel from './ReconciliationPanel';
+import { type ColumnProfile, isKeyCandidate, profileSummary, profileDetails } from './columnProfile';
 
 interface Column {
     id: number;
     column_name: string;
     sample_value: string;
+    profile?: ColumnProfile | null;
 }
 
 interface Mapping {
     sourceColumnId: number | null;
     targetColumnId: number | null;
     isKey: boolean;
-    codebookFileId: number | null;
+    // Left out of the target on purpose: not reported as a missing column
+    excluded?: boolean;
+    comparison?: Comparison;
+    translate?: Translation;
+    // Derived mappings compute the expected value from source columns and have no source column
+    expression?: string;
+    rules: Rule[];
     note?: string;
 }
 
+// A mapping as saved: the options above are kept as JSON in mapping_note
+interface SavedMapping {
+    source_column_id: number | null;
+    target_column_id: number | null;
+    mapping_note: string | null;
+    rules?: Rule[];
+}
+
+type MappingNote = Partial<Pick<Mapping, 'isKey' | 'excluded' | 'comparison' | 'translate' | 'expression'>> & {
+    codebookFileId?: number; // mappings saved before the rules
+};
+
+interface ProjectFile {
+    id: number;
+    file_type: 'source' | 'target' | 'codebook';
+    original_filename: string;
+    columns: Column[];
+}
+
+interface Suggestion {
+    sourceColumnId: number;
+    targetColumnId: number;
+    score: number;
+    reasons: string[];
+}
+
 interface Props {
     projectId: number;
-    files: any[]; // Passed from parent for convenience
+    files: ProjectFile[]; // Passed from parent for convenience
+    mode: 'compare' | 'single';
     onBack: () => void;
     onNext: () => void;
 }
 
-export default function MappingView({ projectId, files, onBack, onNext }: Props) {
+// Suggestions at least this confident are accepted by "Accept all"
+const CONFIDENT_SCORE = 0.8;
+
+const scoreColor = (score: number) => score >= CONFIDENT_SCORE ? '#28a745' : score >= 0.6 ? '#e0a800' : '#dc3545';
+
+// One synonym group per line, names separated by commas
+const parseSynonyms = (text: string) => text.split('\n')
+    .map(line => line.split(',').map(name => name.trim()).filter(Boolean))
+    .filter(group => group.length > 1);
+
+export default function MappingView({ projectId, files, mode, onBack, onNext }: Props) {
     const [sourceCols, setSourceCols] = useState<Column[]>([]);
     const [targetCols, setTargetCols] = useState<Column[]>([]);
     const [mappings, setMappings] = useState<Mapping[]>([]);
     const [loading, setLoading] = useState(false);
-    const [codebookFiles, setCodebookFiles] = useState<any[]>([]);
+    const [codebookFiles, setCodebookFiles] = useState<ProjectFile[]>([]);
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [synonymsText, setSynonymsText] = useState('');
+    const [showSynonyms, setShowSynonyms] = useState(false);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [showColumnRules, setShowColumnRules] = useState(false);
+    const [showRowFilters, setShowRowFilters] = useState(false);
+    const [showReconciliation, setShowReconciliation] = useState(false);
+    // Bumped when a template is applied, so that the schema and column rules are read again
+    const [templateVersion, setTemplateVersion] = useState(0);
+    // A single file (or a target without its source) is validated against its schema and column rules only
+    const singleFile = mode === 'single' || !files.some(f => f.file_type === 'source');
+    const singleFiles = files.filter(f => f.file_type !== 'source');
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/settings`)
+            .then(res => res.json())
+            .then(settings => setSynonymsText((settings.synonyms || []).map((group: string[]) => group.join(', ')).join('\n')))
+            .catch(console.error);
+    }, [projectId]);
 
     useEffect(() => {
         const sFile = files.find(f => f.file_type === 'source');
@@ -51,14 +124,24 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
 
             if (existing.length > 0) {
                 // Convert DB format to local state format
-                const mappingState = existing.map((m: any) => {
-                    let extra = {};
+                const mappingState = existing.map((m: SavedMapping) => {
+                    let extra: MappingNote = {};
                     try { extra = JSON.parse(m.mapping_note || '{}'); } catch (e) { }
+                    const rules: Rule[] = m.rules || [];
+                    // Older mappings keep their codebook in the note; turn it into a rule
+                    const legacyCodebookId = extra.codebookFileId;
+                    if (legacyCodebookId && !rules.some(r => r.rule_type === 'exists_in_codebook' && Number(r.parameter) === legacyCodebookId)) {
+                        rules.push({ rule_type: 'exists_in_codebook', parameter: String(legacyCodebookId), severity: 'error' });
+                    }
                     return {
                         sourceColumnId: m.source_column_id,
                         targetColumnId: m.target_column_id,
-                        isKey: (extra as any).isKey || false,
-                        codebookFileId: (extra as any).codebookFileId || null,
+                        isKey: extra.isKey || false,
+                        excluded: extra.excluded || false,
+                        comparison: extra.comparison,
+                        translate: extra.translate,
+                        expression: extra.expression,
+                        rules,
                         note: m.mapping_note
                     };
                 });
@@ -76,11 +159,37 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
     const handleAutoMap = async () => {
         const res = await fetch(`/api/projects/${projectId}/auto-map`, { method: 'POST' });
         const data = await res.json();
-        if (data.mappings) {
-            // Merge with existing logic: exact overwrite or partial?
-            // Let's just set them for now.
-            setMappings(data.mappings);
-            alert(`Auto-mapped ${data.mappings.length} columns.`);
+        if (data.error) {
+            alert(data.error);
+            return;
+        }
+        // Suggestions that are already mapped need no decision
+        const open = (data.suggestions as Suggestion[]).filter(sg =>
+            mappings.find(m => m.sourceColumnId === sg.sourceColumnId)?.targetColumnId !== sg.targetColumnId);
+        setSuggestions(open);
+        if (open.length === 0) alert('No new mapping suggestions.');
+    };
+
+    const acceptSuggestions = (accepted: Suggestion[]) => {
+        accepted.forEach(sg => updateMapping(sg.sourceColumnId, { targetColumnId: sg.targetColumnId, excluded: false }));
+        setSuggestions(prev => prev.filter(sg => !accepted.includes(sg)));
+    };
+
+    const rejectSuggestion = (rejected: Suggestion) => {
+        setSuggestions(prev => prev.filter(sg => sg !== rejected));
+    };
+
+    const saveSynonyms = async () => {
+        const res = await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ synonyms: parseSynonyms(synonymsText) })
+        });
+        if (res.ok) {
+            setShowSynonyms(false);
+        } else {
+            const data = await res.json();
+            alert('Saving synonyms failed: ' + data.error);
         }
     };
 
@@ -92,12 +201,26 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
                 return prev.map(m => m.sourceColumnId === sourceId ? { ...m, ...updates } : m);
             } else {
                 // Create new
-                return [...prev, { sourceColumnId: sourceId, targetColumnId: null, isKey: false, codebookFileId: null, ...updates }];
+                return [...prev, { sourceColumnId: sourceId, targetColumnId: null, isKey: false, rules: [], ...updates }];
             }
         });
     };
 
-    const saveMappings = async () => {
+    const derivedMappings = mappings.filter(m => m.expression !== undefined);
+
+    const updateDerived = (mapping: Mapping, updates: Partial<Mapping>) => {
+        setMappings(prev => prev.map(m => m === mapping ? { ...m, ...updates } : m));
+    };
+
+    const addDerived = () => {
+        setMappings(prev => [...prev, { sourceColumnId: null, targetColumnId: null, isKey: false, expression: '', rules: [] }]);
+    };
+
+    const removeDerived = (mapping: Mapping) => {
+        setMappings(prev => prev.filter(m => m !== mapping));
+    };
+
+    const persistMappings = async () => {
         // Filter out empty mappings if necessary, or send as is (if null implies unmapped)
         // We send all relevant mappings.
 
@@ -105,10 +228,11 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
         // Actually, we store what is in state.
 
         // Serialize extra fields into 'note'
-        const payload = mappings.filter(m => m.targetColumnId !== null || m.isKey || m.codebookFileId).map(m => ({
+        const payload = mappings.filter(m => m.targetColumnId !== null || m.isKey || m.excluded || m.rules.length > 0).map(m => ({
             sourceColumnId: m.sourceColumnId,
             targetColumnId: m.targetColumnId,
-            note: JSON.stringify({ isKey: m.isKey, codebookFileId: m.codebookFileId })
+            note: JSON.stringify({ isKey: m.isKey, excluded: m.excluded || undefined, comparison: m.comparison, translate: m.translate, expression: m.expression }),
+            rules: m.rules.map(r => ({ rule_type: r.rule_type, parameter: r.parameter, severity: r.severity }))
         }));
 
         const res = await fetch(`/api/projects/${projectId}/mappings`, {
@@ -117,34 +241,119 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
             body: JSON.stringify({ mappings: payload })
         });
 
-        if (res.ok) {
-            // alert('Mappings saved!');
-            onNext();
-        } else {
-            alert('Error saving mappings');
+        if (!res.ok) {
+            const data = await res.json().catch(() => ({}));
+            alert(data.error || 'Error saving mappings');
         }
+        return res.ok;
+    };
+
+    const saveMappings = async () => {
+        if (await persistMappings()) onNext();
+    };
+
+    const handleTemplateApplied = () => {
+        setSuggestions([]);
+        fetchMappings();
+        setTemplateVersion(v => v + 1);
     };
 
     return (
         <div className="mapping-view">
             <div className="header-actions" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
                 <button onClick={onBack} style={{ background: '#666' }}> Back </button>
-                <h2>Column Mapping & Validation Rules</h2>
+                <h2>{mode === 'single' ? 'File Schema & Column Rules' : 'Column Mapping & Validation Rules'}</h2>
                 <div>
-                    <button onClick={handleAutoMap} style={{ marginRight: '10px', background: '#e0a800' }}>Auto Map</button>
-                    <button onClick={saveMappings} style={{ background: '#28a745' }}>Save & Prepare Validation</button>
+                    <button onClick={() => setShowRowFilters(!showRowFilters)} style={{ marginRight: '10px', background: '#20c997' }}>Row Filters</button>
+                    <button onClick={() => setShowTemplates(!showTemplates)} style={{ marginRight: '10px', background: '#17a2b8' }}>Templates</button>
+                    {!singleFile && (
+                        <>
+                            <button onClick={() => setShowColumnRules(!showColumnRules)} style={{ marginRight: '10px', background: '#6f42c1' }}>Column Rules</button>
+                            <button onClick={() => setShowReconciliation(!showReconciliation)} style={{ marginRight: '10px', background: '#fd7e14' }}>Reconciliation</button>
+                            <button onClick={() => setShowSynonyms(!showSynonyms)} style={{ marginRight: '10px', background: '#6c757d' }}>Synonyms</button>
+                            <button onClick={handleAutoMap} style={{ marginRight: '10px', background: '#e0a800' }}>Auto Map</button>
+                        </>
+                    )}
+                    <button onClick={singleFile ? onNext : saveMappings} style={{ background: '#28a745' }}>{singleFile ? 'Prepare Validation' : 'Save & Prepare Validation'}</button>
                 </div>
             </div>
 
+            {singleFile && mode === 'compare' && (
+                <p style={{ textAlign: 'left', color: '#666' }}>
+                    There is no source file: the target file is validated against its column rules only. Save the rules before validating.
+                </p>
+            )}
+
+            {showRowFilters && (
+                <RowFiltersPanel projectId={projectId} files={singleFile ? singleFiles : files} compare={!singleFile} onClose={() => setShowRowFilters(false)} />
+            )}
+
+            {showReconciliation && !singleFile && (
+                <ReconciliationPanel
+                    projectId={projectId}
+                    columns={mappings
+                        .filter(m => m.targetColumnId)
+                        .map(m => m.expression !== undefined
+                            ? targetCols.find(c => c.id === m.targetColumnId)?.column_name
+                            : sourceCols.find(c => c.id === m.sourceColumnId)?.column_name)
+                        .filter((name): name is string => !!name)}
+                    onClose={() => setShowReconciliation(false)}
+                />
+            )}
+
+            {mode === 'single' && <SchemaEditor key={templateVersion} projectId={projectId} columns={targetCols} />}
+
+            {(showColumnRules || singleFile) && (
+                <ColumnRulesPanel key={templateVersion} projectId={projectId} files={singleFile ? singleFiles : files} onClose={singleFile ? undefined : () => setShowColumnRules(false)} />
+            )}
+
             {loading && <p>Loading...</p>}
 
-            <table className="mapping-table" style={{ width: '100%', borderCollapse: 'collapse' }}>
+            {showTemplates && (
+                <TemplatePanel
+                    projectId={projectId}
+                    // Without a source file there are no mappings to save first
+                    saveMappings={singleFile ? async () => true : persistMappings}
+                    onApplied={handleTemplateApplied}
+                    onClose={() => setShowTemplates(false)}
+                />
+            )}
+
+            {showSynonyms && (
+                <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left' }}>
+                    <div style={{ fontSize: '0.9em', marginBottom: '0.5rem' }}>
+                        Column names that mean the same for Auto Map, one group per line, separated by commas (e.g. <code>Quantity, Qty, Počet kusů</code>).
+                    </div>
+                    <textarea value={synonymsText} onChange={(e) => setSynonymsText(e.target.value)} rows={5} style={{ width: '100%', fontFamily: 'monospace' }} />
+                    <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem' }}>
+                        <button onClick={saveSynonyms}>Save Synonyms</button>
+                        <button onClick={() => setShowSynonyms(false)} style={{ background: '#6c757d' }}>Close</button>
+                    </div>
+                </div>
+            )}
+
+            {suggestions.length > 0 && (
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem', padding: '0.5rem', background: '#fff8e1', border: '1px solid #e0a800', borderRadius: '4px' }}>
+                    <span>{suggestions.length} mapping suggestions, review them in the Target Column.</span>
+                    <button
+                        onClick={() => acceptSuggestions(suggestions.filter(sg => sg.score >= CONFIDENT_SCORE))}
+                        disabled={!suggestions.some(sg => sg.score >= CONFIDENT_SCORE)}
+                        style={{ background: '#28a745' }}
+                    >
+                        Accept all ≥ {Math.round(CONFIDENT_SCORE * 100)}%
+                    </button>
+                    <button onClick={() => setSuggestions([])} style={{ background: '#6c757d' }}>Dismiss all</button>
+                </div>
+            )}
+
+            {!singleFile && <table className="mapping-table" style={{ width: '100%', borderCollapse: 'collapse' }}>
                 <thead>
                     <tr style={{ background: '#eee', textAlign: 'left' }}>
-                        <th style={{ padding: '10px' }}>Is Key?</th>
+                        <th style={{ padding: '10px' }} title="Check several columns to match rows by a composite key">Key Part</th>
                         <th style={{ padding: '10px' }}>Source Column (Vzor)</th>
                         <th style={{ padding: '10px' }}>Sample</th>
                         <th style={{ padding: '10px' }}>Target Column (Export)</th>
+                        <th style={{ padding: '10px' }}>Compare As</th>
                         <th style={{ padding: '10px' }}>Validation Rule</th>
                     </tr>
                 </thead>
@@ -152,53 +361,156 @@ export default function MappingView({ projectId, files, onBack, onNext }: Props)
                     {sourceCols.map(sCol => {
                         const m = mappings.find(map => map.sourceColumnId === sCol.id);
                         const isKey = m?.isKey || false;
-                        const targetId = m?.targetColumnId ?? '';
-                        const codebookId = m?.codebookFileId ?? '';
+                        const targetId = m?.excluded ? 'excluded' : m?.targetColumnId ?? '';
+                        const suggestion = suggestions.find(sg => sg.sourceColumnId === sCol.id);
 
                         return (
                             <tr key={sCol.id} style={{ borderBottom: '1px solid #ddd', background: isKey ? '#e3f2fd' : 'white' }}>
                                 <td style={{ padding: '10px', textAlign: 'center' }}>
                                     <input
-                                        type="radio"
-                                        name="primary_key"
+                                        type="checkbox"
                                         checked={isKey}
-                                        onChange={() => updateMapping(sCol.id, { isKey: true })}
+                                        onChange={(e) => updateMapping(sCol.id, { isKey: e.target.checked, ...(e.target.checked && { excluded: false }) })}
                                     />
                                 </td>
-                                <td style={{ padding: '10px' }}><strong>{sCol.column_name}</strong></td>
-                                <td style={{ padding: '10px', color: '#666', fontSize: '0.9em' }}>{sCol.sample_value}</td>
+                                <td style={{ padding: '10px' }}>
+                                    <strong>{sCol.column_name}</strong>
+                                    {isKeyCandidate(sCol.profile) && !isKey && <div style={{ fontSize: '0.75em', color: '#28a745' }} title="Unique and never empty">key candidate</div>}
+                                </td>
+                                <td style={{ padding: '10px', color: '#666', fontSize: '0.9em' }} title={sCol.profile ? profileDetails(sCol.profile) : undefined}>
+                                    {sCol.sample_value}
+                                    {sCol.profile && <div style={{ fontSize: '0.8em', color: '#888' }}>{profileSummary(sCol.profile)}</div>}
+                                </td>
                                 <td style={{ padding: '10px' }}>
                                     <select
                                         value={targetId}
-                                        onChange={(e) => updateMapping(sCol.id, { targetColumnId: e.target.value ? parseInt(e.target.value) : null })}
+                                        onChange={(e) => updateMapping(sCol.id, e.target.value === 'excluded'
+                                            ? { targetColumnId: null, excluded: true, isKey: false }
+                                            : { targetColumnId: e.target.value ? parseInt(e.target.value) : null, excluded: false })}
                                         style={{ padding: '5px', width: '100%' }}
                                     >
                                         <option value="">-- Unmapped --</option>
+                                        <option value="excluded" title="Not reported as a missing column">-- Not in target --</option>
                                         {targetCols.map(tCol => (
                                             <option key={tCol.id} value={tCol.id}>
                                                 {tCol.column_name}
                                             </option>
                                         ))}
                                     </select>
-                                    {m?.targetColumnId && <div style={{ fontSize: '0.8em', color: '#888', marginTop: '4px' }}>Sample: {targetCols.find(t => t.id === m.targetColumnId)?.sample_value}</div>}
+                                    {m?.targetColumnId && (() => {
+                                        const tCol = targetCols.find(t => t.id === m.targetColumnId);
+                                        return (
+                                            <div style={{ fontSize: '0.8em', color: '#888', marginTop: '4px' }} title={tCol?.profile ? profileDetails(tCol.profile) : undefined}>
+                                                Sample: {tCol?.sample_value}
+                                                {tCol?.profile && <div>{profileSummary(tCol.profile)}</div>}
+                                            </div>
+                                        );
+                                    })()}
+                                    {suggestion && (
+                                        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', fontSize: '0.85em', marginTop: '4px' }} title={suggestion.reasons.join(', ')}>
+                                            <span>Suggested: <strong>{targetCols.find(t => t.id === suggestion.targetColumnId)?.column_name}</strong></span>
+                                            <span style={{ color: 'white', background: scoreColor(suggestion.score), borderRadius: '8px', padding: '0 6px' }}>{Math.round(suggestion.score * 100)}%</span>
+                                            <button onClick={() => acceptSuggestions([suggestion])} style={{ padding: '0 6px', background: '#28a745' }} title="Accept">✓</button>
+                                            <button onClick={() => rejectSuggestion(suggestion)} style={{ padding: '0 6px', background: '#dc3545' }} title="Reject">✗</button>
+                                        </div>
+                                    )}
+                                </td>
+                                <td style={{ padding: '10px', minWidth: '120px' }}>
+                                    {m?.targetColumnId && (
+                                        <>
+                                            <ComparisonEditor
+                                                comparison={m.comparison || { mode: 'text' }}
+                                                onChange={(comparison) => updateMapping(sCol.id, { comparison })}
+                                            />
+                                            {codebookFiles.length > 0 && (
+                                                <TranslationEditor
+                                                    translation={m.translate}
+                                                    codebookFiles={codebookFiles}
+                                                    onChange={(translate) => updateMapping(sCol.id, { translate })}
+                                                />
+                                            )}
+                                        </>
+                                    )}
                                 </td>
                                 <td style={{ padding: '10px' }}>
-                                    <select
-                                        value={codebookId}
-                                        onChange={(e) => updateMapping(sCol.id, { codebookFileId: e.target.value ? parseInt(e.target.value) : null })}
-                                        style={{ padding: '5px', width: '100%' }}
-                                    >
-                                        <option value="">-- No Validation --</option>
-                                        {codebookFiles.map(cb => (
-                                            <option key={cb.id} value={cb.id}>Check in: {cb.original_filename}</option>
-                                        ))}
-                                    </select>
+                                    {m?.targetColumnId ? (
+                                        <RuleEditor
+                                            rules={m.rules || []}
+                                            codebookFiles={codebookFiles}
+                                            onChange={(rules) => updateMapping(sCol.id, { rules })}
+                                        />
+                                    ) : (
+                                        <span style={{ color: '#aaa', fontSize: '0.85em' }}>Map a target column to add rules</span>
+                                    )}
                                 </td>
                             </tr>
                         );
                     })}
                 </tbody>
-            </table>
+            </table>}
+
+            {!singleFile && (
+                <div style={{ marginTop: '1.5rem', textAlign: 'left' }}>
+                    <h3>Derived Columns</h3>
+                    <p style={{ color: '#666', fontSize: '0.9em' }}>
+                        Target columns computed from the source, e.g. a full name from two columns or an amount from quantity and price.
+                    </p>
+                    {derivedMappings.length > 0 && (
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                            <thead>
+                                <tr style={{ background: '#eee', textAlign: 'left' }}>
+                                    <th style={{ padding: '10px' }}>Target Column (Export)</th>
+                                    <th style={{ padding: '10px' }}>Expression</th>
+                                    <th style={{ padding: '10px' }}>Compare As</th>
+                                    <th style={{ padding: '10px' }}>Validation Rule</th>
+                                    <th style={{ padding: '10px' }}></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {derivedMappings.map((m, idx) => (
+                                    <tr key={idx} style={{ borderBottom: '1px solid #ddd', verticalAlign: 'top' }}>
+                                        <td style={{ padding: '10px' }}>
+                                            <select
+                                                value={m.targetColumnId ?? ''}
+                                                onChange={(e) => updateDerived(m, { targetColumnId: e.target.value ? parseInt(e.target.value) : null })}
+                                                style={{ padding: '5px', width: '100%' }}
+                                            >
+                                                <option value="">-- Select --</option>
+                                                {targetCols.map(tCol => <option key={tCol.id} value={tCol.id}>{tCol.column_name}</option>)}
+                                            </select>
+                                        </td>
+                                        <td style={{ padding: '10px', minWidth: '300px' }}>
+                                            <ExpressionEditor
+                                                projectId={projectId}
+                                                expression={m.expression || ''}
+                                                sourceColumns={sourceCols.map(c => c.column_name)}
+                                                onChange={(expression) => updateDerived(m, { expression })}
+                                            />
+                                        </td>
+                                        <td style={{ padding: '10px', minWidth: '120px' }}>
+                                            <ComparisonEditor
+                                                comparison={m.comparison || { mode: 'text' }}
+                                                onChange={(comparison) => updateDerived(m, { comparison })}
+                                            />
+                                        </td>
+                                        <td style={{ padding: '10px' }}>
+                                            <RuleEditor
+                                                rules={m.rules || []}
+                                                codebookFiles={codebookFiles}
+                                                onChange={(rules) => updateDerived(m, { rules })}
+                                            />
+                                        </td>
+                                        <td style={{ padding: '10px' }}>
+                                            <button onClick={() => removeDerived(m)} style={{ background: '#dc3545', padding: '0 6px' }} title="Remove derived column">×</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <button onClick={addDerived} style={{ marginTop: '0.5rem', background: '#6c757d' }}>Add Derived Column</button>
+                </div>
+            )}
         </div>
     );
 }
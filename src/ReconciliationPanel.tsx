@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+
+interface AggregateCheck {
+    measure: string;
+    column?: string;
+    groupBy?: string;
+    absTolerance?: number;
+    relTolerance?: number;
+    severity?: string;
+}
+
+interface Props {
+    projectId: number;
+    // Mapped columns: source column names, target names of derived mappings
+    columns: string[];
+    onClose: () => void;
+}
+
+const MEASURE_LABELS: Record<string, string> = {
+    count: 'Row count',
+    sum: 'SUM',
+    avg: 'AVG',
+    min: 'MIN',
+    max: 'MAX',
+};
+
+const inputStyle = { padding: '3px' };
+
+// Optional number field: empty input removes the value
+const numberOrUndefined = (value: string) => value === '' ? undefined : Number(value);
+
+// Totals compared between source and target after the row comparison, e.g. the sum of
+// amounts per cost centre
+export default function ReconciliationPanel({ projectId, columns, onClose }: Props) {
+    const [checks, setChecks] = useState<AggregateCheck[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/settings`)
+            .then(res => res.json())
+            .then(settings => setChecks(settings.reconciliation || []))
+            .catch(console.error);
+    }, [projectId]);
+
+    const updateCheck = (idx: number, updates: Partial<AggregateCheck>) => {
+        setChecks(prev => prev.map((c, i) => i === idx ? { ...c, ...updates } : c));
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            // Row counts read no column
+            body: JSON.stringify({ reconciliation: checks.map(c => c.measure === 'count' ? { ...c, column: undefined } : c) })
+        });
+        setSaving(false);
+        if (res.ok) {
+            onClose();
+        } else {
+            const data = await res.json();
+            alert('Saving reconciliation failed: ' + data.error);
+        }
+    };
+
+    const columnSelect = (value: string | undefined, placeholder: string, onChange: (value: string | undefined) => void) => (
+        <select
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            style={{ ...inputStyle, borderColor: value && !columns.includes(value) ? '#dc3545' : undefined }}
+        >
+            <option value="">{placeholder}</option>
+            {value && !columns.includes(value) && <option value={value}>{value} (not mapped)</option>}
+            {columns.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+    );
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ marginBottom: '0.5rem' }}>
+                Totals of both files are compared after the rows, over all filtered rows or per value of a column. Values that are not numbers are skipped.
+            </div>
+
+            {checks.length === 0 && <div style={{ color: '#888', marginBottom: '0.5rem' }}>No reconciliation checks.</div>}
+            {checks.map((c, idx) => (
+                <div key={idx} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '4px' }}>
+                    <select value={c.measure} onChange={(e) => updateCheck(idx, { measure: e.target.value })} style={inputStyle}>
+                        {Object.entries(MEASURE_LABELS).map(([measure, label]) => <option key={measure} value={measure}>{label}</option>)}
+                    </select>
+                    {c.measure !== 'count' && (
+                        <>of {columnSelect(c.column, '-- Column --', column => updateCheck(idx, { column }))}</>
+                    )}
+                    per {columnSelect(c.groupBy, 'whole file', groupBy => updateCheck(idx, { groupBy }))}
+                    <label title="Allowed absolute difference">
+                        ±{' '}
+                        <input
+                            type="number" min="0" step="any" value={c.absTolerance ?? ''}
+                            onChange={(e) => updateCheck(idx, { absTolerance: numberOrUndefined(e.target.value) })}
+                            style={{ ...inputStyle, width: '70px' }}
+                        />
+                    </label>
+                    <label title="Allowed relative difference">
+                        ±{' '}
+                        <input
+                            type="number" min="0" step="any" value={c.relTolerance === undefined ? '' : c.relTolerance * 100}
+                            onChange={(e) => updateCheck(idx, { relTolerance: e.target.value === '' ? undefined : Number(e.target.value) / 100 })}
+                            style={{ ...inputStyle, width: '60px' }}
+                        /> %
+                    </label>
+                    <select value={c.severity || 'error'} onChange={(e) => updateCheck(idx, { severity: e.target.value })} style={inputStyle}>
+                        <option value="error">error</option>
+                        <option value="warning">warning</option>
+                        <option value="info">info</option>
+                    </select>
+                    <button
+                        onClick={() => setChecks(prev => prev.filter((_, i) => i !== idx))}
+                        style={{ background: '#dc3545', padding: '0 6px' }}
+                        title="Remove check"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => setChecks(prev => [...prev, { measure: 'count' }])}
+                style={{ background: '#6c757d', padding: '2px 8px', marginBottom: '0.5rem' }}
+            >
+                Add Check
+            </button>
+
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save Reconciliation'}</button>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+
+type Side = 'source' | 'target';
+
+interface FilterCondition {
+    column: string;
+    operator: string;
+    value?: string;
+}
+
+interface RowFilter {
+    combine?: 'and' | 'or';
+    conditions: FilterCondition[];
+}
+
+interface Props {
+    projectId: number;
+    files: { id: number; file_type: string; columns: { column_name: string }[] }[];
+    // Missing and extra rows only exist when two files are compared
+    compare: boolean;
+    onClose: () => void;
+}
+
+const FILE_LABELS: Record<Side, string> = { source: 'Source', target: 'Target' };
+
+const OPERATOR_LABELS: Record<string, string> = {
+    equals: 'equals',
+    not_equals: 'does not equal',
+    contains: 'contains',
+    not_contains: 'does not contain',
+    starts_with: 'starts with',
+    ends_with: 'ends with',
+    greater_than: '>',
+    greater_or_equal: '≥',
+    less_than: '<',
+    less_or_equal: '≤',
+    in: 'is one of (a|b)',
+    not_in: 'is none of (a|b)',
+    empty: 'is empty',
+    not_empty: 'is not empty',
+    matches: 'matches regex',
+};
+
+const VALUELESS = ['empty', 'not_empty'];
+
+const UNMATCHED_LABELS = { missing_row: 'Missing rows', extra_row: 'Extra rows' };
+
+const inputStyle = { padding: '3px' };
+
+// Which rows of each file are validated, and how rows without a counterpart are reported
+export default function RowFiltersPanel({ projectId, files, compare, onClose }: Props) {
+    const [filters, setFilters] = useState<Partial<Record<Side, RowFilter>>>({});
+    const [unmatchedRows, setUnmatchedRows] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/settings`)
+            .then(res => res.json())
+            .then(settings => {
+                setFilters(settings.filters || {});
+                setUnmatchedRows(settings.unmatchedRows || {});
+            })
+            .catch(console.error);
+    }, [projectId]);
+
+    const dataFiles = files.filter(f => f.file_type === 'source' || f.file_type === 'target');
+
+    const updateFilter = (side: Side, updates: Partial<RowFilter>) => {
+        setFilters(prev => ({ ...prev, [side]: { conditions: [], ...prev[side], ...updates } }));
+    };
+
+    const updateCondition = (side: Side, idx: number, updates: Partial<FilterCondition>) => {
+        updateFilter(side, { conditions: (filters[side]?.conditions || []).map((c, i) => i === idx ? { ...c, ...updates } : c) });
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(compare ? { filters, unmatchedRows } : { filters })
+        });
+        setSaving(false);
+        if (res.ok) {
+            onClose();
+        } else {
+            const data = await res.json();
+            alert('Saving row filters failed: ' + data.error);
+        }
+    };
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ marginBottom: '0.5rem' }}>
+                Only rows matching the filter of their file are validated; the others are skipped before rows are matched by key.
+            </div>
+
+            {dataFiles.map(file => {
+                const side = file.file_type as Side;
+                const filter = filters[side] || { conditions: [] };
+                const columnNames: string[] = file.columns.map(c => c.column_name);
+                return (
+                    <div key={file.id} style={{ marginBottom: '0.75rem' }}>
+                        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '4px' }}>
+                            <strong>{FILE_LABELS[side]} rows</strong>
+                            {filter.conditions.length > 1 && (
+                                <select value={filter.combine || 'and'} onChange={(e) => updateFilter(side, { combine: e.target.value as 'and' | 'or' })} style={inputStyle}>
+                                    <option value="and">matching all conditions (AND)</option>
+                                    <option value="or">matching any condition (OR)</option>
+                                </select>
+                            )}
+                            {filter.conditions.length === 0 && <span style={{ color: '#888' }}>all rows</span>}
+                        </div>
+                        {filter.conditions.map((c, idx) => (
+                            <div key={idx} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '4px' }}>
+                                <select
+                                    value={c.column}
+                                    onChange={(e) => updateCondition(side, idx, { column: e.target.value })}
+                                    style={{ ...inputStyle, borderColor: c.column && !columnNames.includes(c.column) ? '#dc3545' : undefined }}
+                                >
+                                    <option value="">-- Column --</option>
+                                    {c.column && !columnNames.includes(c.column) && <option value={c.column}>{c.column} (not in file)</option>}
+                                    {columnNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                </select>
+                                <select value={c.operator} onChange={(e) => updateCondition(side, idx, { operator: e.target.value })} style={inputStyle}>
+                                    {Object.entries(OPERATOR_LABELS).map(([op, label]) => <option key={op} value={op}>{label}</option>)}
+                                </select>
+                                {!VALUELESS.includes(c.operator) && (
+                                    <input type="text" value={c.value ?? ''} onChange={(e) => updateCondition(side, idx, { value: e.target.value })} style={inputStyle} />
+                                )}
+                                <button
+                                    onClick={() => updateFilter(side, { conditions: filter.conditions.filter((_, i) => i !== idx) })}
+                                    style={{ background: '#dc3545', padding: '0 6px' }}
+                                    title="Remove condition"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updateFilter(side, { conditions: [...filter.conditions, { column: '', operator: 'equals', value: '' }] })}
+                            style={{ background: '#6c757d', padding: '2px 8px' }}
+                        >
+                            Add Condition
+                        </button>
+                    </div>
+                );
+            })}
+
+            {compare && (
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+                    {Object.entries(UNMATCHED_LABELS).map(([type, label]) => (
+                        <label key={type}>
+                            {label}:{' '}
+                            <select value={unmatchedRows[type] || 'error'} onChange={(e) => setUnmatchedRows(prev => ({ ...prev, [type]: e.target.value }))} style={inputStyle}>
+                                <option value="error">error</option>
+                                <option value="warning">warning</option>
+                                <option value="info">info</option>
+                                <option value="off">ignore</option>
+                            </select>
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save Row Filters'}</button>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
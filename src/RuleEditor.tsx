@@ -0,0 +1,123 @@
+import { useState } from 'react';
+
+export interface Rule {
+    id?: number;
+    rule_type: string;
+    parameter: string | null;
+    severity: 'error' | 'warning' | 'info';
+}
+
+interface Props {
+    rules: Rule[];
+    codebookFiles: { id: number; original_filename: string }[];
+    onChange: (rules: Rule[]) => void;
+    // Rules of a single file cannot compare with the source
+    singleFile?: boolean;
+}
+
+const RULE_LABELS: Record<string, string> = {
+    exact_match: 'Equals source',
+    exists_in_codebook: 'Exists in codebook',
+    format_regex: 'Matches format (regex)',
+    not_empty: 'Not empty',
+    min_length: 'Min length',
+    max_length: 'Max length',
+    min_value: 'Min value',
+    max_value: 'Max value',
+    data_type: 'Data type',
+    allowed_values: 'Allowed values (a|b)',
+    unique: 'Unique in file',
+};
+
+// Rule types that need no parameter
+const NO_PARAMETER = ['exact_match', 'not_empty', 'unique'];
+
+// Rule types that compare with the source, or look at all rows of one file
+const MAPPING_ONLY = ['exact_match'];
+const SINGLE_FILE_ONLY = ['unique'];
+
+const DATA_TYPES = ['text', 'number', 'integer', 'date'];
+
+const SEVERITY_COLORS: Record<string, string> = {
+    error: '#721c24',
+    warning: '#856404',
+    info: '#0c5460',
+};
+
+export default function RuleEditor({ rules, codebookFiles, onChange, singleFile }: Props) {
+    const [ruleType, setRuleType] = useState('not_empty');
+    const [parameter, setParameter] = useState('');
+    const [severity, setSeverity] = useState<Rule['severity']>('error');
+
+    const describe = (rule: Rule) => {
+        if (rule.rule_type === 'exists_in_codebook') {
+            const cb = codebookFiles.find(f => f.id === Number(rule.parameter));
+            return `${RULE_LABELS[rule.rule_type]}: ${cb?.original_filename || `#${rule.parameter}`}`;
+        }
+        return NO_PARAMETER.includes(rule.rule_type) ? RULE_LABELS[rule.rule_type] : `${RULE_LABELS[rule.rule_type]}: ${rule.parameter}`;
+    };
+
+    const addRule = () => {
+        const needsParameter = !NO_PARAMETER.includes(ruleType);
+        if (needsParameter && !parameter) return;
+        onChange([...rules, { rule_type: ruleType, parameter: needsParameter ? parameter : null, severity }]);
+        setParameter('');
+    };
+
+    return (
+        <div style={{ fontSize: '0.85em' }}>
+            {rules.map((rule, idx) => (
+                <div key={idx} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+                    <span>
+                        <span style={{ color: SEVERITY_COLORS[rule.severity], fontWeight: 'bold' }}>[{rule.severity}]</span> {describe(rule)}
+                    </span>
+                    <button
+                        onClick={() => onChange(rules.filter((_, i) => i !== idx))}
+                        style={{ background: '#dc3545', padding: '0 6px', marginLeft: '4px' }}
+                        title="Remove rule"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+
+            <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+                <select value={ruleType} onChange={(e) => { setRuleType(e.target.value); setParameter(''); }} style={{ padding: '3px' }}>
+                    {Object.entries(RULE_LABELS).filter(([type]) => !(singleFile ? MAPPING_ONLY : SINGLE_FILE_ONLY).includes(type)).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                    ))}
+                </select>
+
+                {ruleType === 'exists_in_codebook' ? (
+                    <select value={parameter} onChange={(e) => setParameter(e.target.value)} style={{ padding: '3px', width: '100px' }}>
+                        <option value="">-- Codebook --</option>
+                        {codebookFiles.map(cb => (
+                            <option key={cb.id} value={cb.id}>{cb.original_filename}</option>
+                        ))}
+                    </select>
+                ) : ruleType === 'data_type' ? (
+                    <select value={parameter} onChange={(e) => setParameter(e.target.value)} style={{ padding: '3px', width: '100px' }}>
+                        <option value="">-- Type --</option>
+                        {DATA_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                ) : !NO_PARAMETER.includes(ruleType) && (
+                    <input
+                        type="text"
+                        value={parameter}
+                        onChange={(e) => setParameter(e.target.value)}
+                        placeholder={ruleType === 'format_regex' ? '[A-Z]{2}\\d+' : ruleType === 'allowed_values' ? 'A|B|C' : '0'}
+                        style={{ padding: '3px', width: '80px' }}
+                    />
+                )}
+
+                <select value={severity} onChange={(e) => setSeverity(e.target.value as Rule['severity'])} style={{ padding: '3px' }}>
+                    <option value="error">error</option>
+                    <option value="warning">warning</option>
+                    <option value="info">info</option>
+                </select>
+
+                <button onClick={addRule} style={{ padding: '0 8px' }} title="Add rule">+</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+
+type DiffStatus = 'resolved' | 'new' | 'persisting';
+
+interface DiffIssue {
+    id: number;
+    key: string;
+    type: string;
+    column?: string;
+    expected?: string;
+    actual?: string;
+    message?: string;
+    status: DiffStatus;
+    previousActual?: string;
+}
+
+interface ColumnTrend {
+    column: string;
+    base: number;
+    head: number;
+    resolved: number;
+    new: number;
+    persisting: number;
+}
+
+interface Diff {
+    summary: Record<DiffStatus, number>;
+    columns: ColumnTrend[];
+    total: number;
+    issues: DiffIssue[];
+}
+
+interface Props {
+    baseRunId: number;
+    headRunId: number;
+}
+
+const PAGE_SIZE = 100;
+
+const STATUS_STYLES: Record<DiffStatus, { background: string; color: string }> = {
+    resolved: { background: '#d4edda', color: '#155724' },
+    new: { background: '#f8d7da', color: '#721c24' },
+    persisting: { background: '#fff3cd', color: '#856404' },
+};
+
+export default function RunDiffView({ baseRunId, headRunId }: Props) {
+    const [diff, setDiff] = useState<Diff | null>(null);
+    const [status, setStatus] = useState<DiffStatus | ''>('');
+    const [page, setPage] = useState(1);
+
+    useEffect(() => {
+        const params = new URLSearchParams({ base: String(baseRunId), page: String(page), pageSize: String(PAGE_SIZE) });
+        if (status) params.set('status', status);
+        fetch(`/api/runs/${headRunId}/diff?${params}`)
+            .then(res => res.json())
+            .then(setDiff)
+            .catch(console.error);
+    }, [baseRunId, headRunId, status, page]);
+
+    if (!diff) return <p>Loading comparison...</p>;
+
+    const pageCount = Math.max(1, Math.ceil(diff.total / PAGE_SIZE));
+    const selectStatus = (s: DiffStatus) => {
+        setStatus(status === s ? '' : s);
+        setPage(1);
+    };
+
+    return (
+        <div>
+            <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+                {(['resolved', 'new', 'persisting'] as DiffStatus[]).map(s => (
+                    <div
+                        key={s}
+                        onClick={() => selectStatus(s)}
+                        style={{
+                            ...STATUS_STYLES[s], flex: 1, padding: '0.75rem', borderRadius: '4px', cursor: 'pointer', textAlign: 'center',
+                            outline: status === s ? '2px solid #333' : 'none'
+                        }}
+                    >
+                        <div style={{ fontSize: '1.5em', fontWeight: 'bold' }}>{diff.summary[s]}</div>
+                        <div>{s === 'new' ? 'newly introduced' : s === 'persisting' ? 'still present' : 'resolved'}</div>
+                    </div>
+                ))}
+            </div>
+
+            {diff.columns.length > 0 && (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em', marginBottom: '1rem' }}>
+                    <thead>
+                        <tr style={{ background: '#eee', textAlign: 'left' }}>
+                            <th style={{ padding: '6px' }}>Column</th>
+                            <th style={{ padding: '6px' }}>Run #{baseRunId}</th>
+                            <th style={{ padding: '6px' }}>Run #{headRunId}</th>
+                            <th style={{ padding: '6px' }}>Trend</th>
+                            <th style={{ padding: '6px' }}>Resolved</th>
+                            <th style={{ padding: '6px' }}>New</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {diff.columns.map(c => (
+                            <tr key={c.column} style={{ borderBottom: '1px solid #ddd' }}>
+                                <td style={{ padding: '6px' }}>{c.column}</td>
+                                <td style={{ padding: '6px' }}>{c.base}</td>
+                                <td style={{ padding: '6px' }}>{c.head}</td>
+                                <td style={{ padding: '6px', color: c.head > c.base ? 'red' : c.head < c.base ? 'green' : '#666' }}>
+                                    {c.head > c.base ? `▲ +${c.head - c.base}` : c.head < c.base ? `▼ ${c.head - c.base}` : '='}
+                                </td>
+                                <td style={{ padding: '6px', color: 'green' }}>{c.resolved}</td>
+                                <td style={{ padding: '6px', color: 'red' }}>{c.new}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {diff.issues.length > 0 && (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+                    <thead>
+                        <tr style={{ background: '#eee', textAlign: 'left' }}>
+                            <th style={{ padding: '8px' }}>Status</th>
+                            <th style={{ padding: '8px' }}>Type</th>
+                            <th style={{ padding: '8px' }}>Key</th>
+                            <th style={{ padding: '8px' }}>Column</th>
+                            <th style={{ padding: '8px' }}>Expected</th>
+                            <th style={{ padding: '8px' }}>Actual</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {diff.issues.map(issue => (
+                            <tr key={`${issue.status}-${issue.id}`} style={{ borderBottom: '1px solid #ddd' }}>
+                                <td style={{ padding: '8px' }}>
+                                    <span style={{ ...STATUS_STYLES[issue.status], padding: '2px 6px', borderRadius: '4px', fontSize: '0.8em' }}>{issue.status}</span>
+                                </td>
+                                <td style={{ padding: '8px' }}>{issue.type}</td>
+                                <td style={{ padding: '8px' }}><strong>{issue.key}</strong></td>
+                                <td style={{ padding: '8px' }}>{issue.column || '-'}</td>
+                                <td style={{ padding: '8px', color: 'green' }}>{issue.expected}</td>
+                                <td style={{ padding: '8px', color: 'red' }}>
+                                    {issue.actual}
+                                    {issue.status === 'persisting' && issue.previousActual !== issue.actual && (
+                                        <div style={{ color: '#888', fontSize: '0.8em' }}>was: {issue.previousActual}</div>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {diff.total > PAGE_SIZE && (
+                <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '1rem', marginTop: '1rem' }}>
+                    <button disabled={page <= 1} onClick={() => setPage(p => p - 1)}>&lt; Prev</button>
+                    <span>Page {page} / {pageCount} ({diff.total} issues)</span>
+                    <button disabled={page >= pageCount} onClick={() => setPage(p => p + 1)}>Next &gt;</button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+
+interface SchemaColumn {
+    name: string;
+    type?: 'text' | 'number' | 'integer' | 'date';
+    required?: boolean;
+    unique?: boolean;
+    allowedValues?: string[];
+    severity?: 'error' | 'warning' | 'info';
+}
+
+interface Props {
+    projectId: number;
+    // Columns of the file being checked
+    columns: { column_name: string; sample_value: string }[];
+}
+
+const cellStyle = { padding: '5px' };
+
+// Declared schema of the file checked in single-file mode, stored in the project settings
+export default function SchemaEditor({ projectId, columns }: Props) {
+    const [schemaColumns, setSchemaColumns] = useState<SchemaColumn[]>([]);
+    const [allowExtraColumns, setAllowExtraColumns] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/settings`)
+            .then(res => res.json())
+            .then(settings => {
+                setSchemaColumns(settings.schema?.columns || []);
+                setAllowExtraColumns(settings.schema?.allowExtraColumns !== false);
+            })
+            .catch(console.error);
+    }, [projectId]);
+
+    const fileColumnNames = columns.map(c => c.column_name);
+    const undeclared = fileColumnNames.filter(name => !schemaColumns.some(c => c.name === name));
+
+    const update = (idx: number, updates: Partial<SchemaColumn>) => {
+        setSchemaColumns(prev => prev.map((c, i) => i === idx ? { ...c, ...updates } : c));
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const schema = { columns: schemaColumns.filter(c => c.name.trim()), allowExtraColumns };
+        const res = await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ schema })
+        });
+        setSaving(false);
+        if (!res.ok) {
+            const data = await res.json();
+            alert('Saving schema failed: ' + data.error);
+        }
+    };
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ marginBottom: '0.5rem' }}>
+                <strong>File Schema</strong> – every declared column must be in the file, its values are checked on every row.
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                    <tr style={{ background: '#eee' }}>
+                        <th style={cellStyle}>Column</th>
+                        <th style={cellStyle}>Type</th>
+                        <th style={cellStyle}>Required</th>
+                        <th style={cellStyle}>Unique</th>
+                        <th style={cellStyle} title="Separated by |">Allowed Values</th>
+                        <th style={cellStyle}>Severity</th>
+                        <th style={cellStyle}></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {schemaColumns.map((col, idx) => (
+                        <tr key={idx} style={{ borderBottom: '1px solid #eee' }}>
+                            <td style={cellStyle}>
+                                <input
+                                    type="text"
+                                    value={col.name}
+                                    onChange={(e) => update(idx, { name: e.target.value })}
+                                    style={{ padding: '3px', borderColor: col.name && !fileColumnNames.includes(col.name) ? '#dc3545' : undefined }}
+                                    title={col.name && !fileColumnNames.includes(col.name) ? 'Not in the uploaded file' : undefined}
+                                />
+                            </td>
+                            <td style={cellStyle}>
+                                <select value={col.type || 'text'} onChange={(e) => update(idx, { type: e.target.value as SchemaColumn['type'] })} style={{ padding: '3px' }}>
+                                    <option value="text">text</option>
+                                    <option value="number">number</option>
+                                    <option value="integer">integer</option>
+                                    <option value="date">date</option>
+                                </select>
+                            </td>
+                            <td style={{ ...cellStyle, textAlign: 'center' }}>
+                                <input type="checkbox" checked={!!col.required} onChange={(e) => update(idx, { required: e.target.checked })} />
+                            </td>
+                            <td style={{ ...cellStyle, textAlign: 'center' }}>
+                                <input type="checkbox" checked={!!col.unique} onChange={(e) => update(idx, { unique: e.target.checked })} />
+                            </td>
+                            <td style={cellStyle}>
+                                <input
+                                    type="text"
+                                    value={(col.allowedValues || []).join('|')}
+                                    onChange={(e) => update(idx, { allowedValues: e.target.value ? e.target.value.split('|') : undefined })}
+                                    placeholder="any value"
+                                    style={{ padding: '3px', width: '140px' }}
+                                />
+                            </td>
+                            <td style={cellStyle}>
+                                <select value={col.severity || 'error'} onChange={(e) => update(idx, { severity: e.target.value as SchemaColumn['severity'] })} style={{ padding: '3px' }}>
+                                    <option value="error">error</option>
+                                    <option value="warning">warning</option>
+                                    <option value="info">info</option>
+                                </select>
+                            </td>
+                            <td style={cellStyle}>
+                                <button onClick={() => setSchemaColumns(prev => prev.filter((_, i) => i !== idx))} style={{ background: '#dc3545', padding: '0 6px' }} title="Remove column">×</button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <button onClick={() => setSchemaColumns(prev => [...prev, { name: '' }])} style={{ background: '#6c757d' }}>Add Column</button>
+                <button
+                    onClick={() => setSchemaColumns(prev => [...prev, ...undeclared.map(name => ({ name }))])}
+                    disabled={undeclared.length === 0}
+                    style={{ background: '#6c757d' }}
+                >
+                    Declare File Columns ({undeclared.length})
+                </button>
+                <label>
+                    <input type="checkbox" checked={allowExtraColumns} onChange={(e) => setAllowExtraColumns(e.target.checked)} /> Allow columns not in the schema
+                </label>
+                <button onClick={save} disabled={saving} style={{ marginLeft: 'auto' }}>{saving ? 'Saving...' : 'Save Schema'}</button>
+            </div>
+        </div>
+    );
+}
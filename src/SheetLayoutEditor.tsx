@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+
+interface Layout {
+    sheetName: string;
+    headerRow: number;     // 0-based sheet rows
+    dataStartRow: number;
+}
+
+interface CsvOptions {
+    encoding: string;
+    delimiter: string;
+    quote: string;
+}
+
+interface SheetInfo {
+    name: string;
+    rowCount: number;
+    firstRow: number;
+    preview: string[][];
+    detected: { headerRow: number; dataStartRow: number };
+}
+
+interface Props {
+    fileId: number;
+    onSaved: () => void;
+    onClose: () => void;
+}
+
+const ENCODINGS = ['utf-8', 'windows-1250', 'iso-8859-2'];
+const DELIMITERS: Record<string, string> = { ',': 'Comma (,)', ';': 'Semicolon (;)', '\t': 'Tab', '|': 'Pipe (|)' };
+const QUOTES: Record<string, string> = { '"': 'Double quote (")', "'": "Single quote (')" };
+
+const cellStyle = { padding: '3px 6px', border: '1px solid #ddd', maxWidth: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' as const };
+
+export default function SheetLayoutEditor({ fileId, onSaved, onClose }: Props) {
+    const [sheets, setSheets] = useState<SheetInfo[]>([]);
+    const [layout, setLayout] = useState<Layout | null>(null);
+    const [saving, setSaving] = useState(false);
+    // CSV files: options as read (detected or saved) and the ones changed here, previewed before saving
+    const [csv, setCsv] = useState<CsvOptions | null>(null);
+    const [csvChanges, setCsvChanges] = useState<Partial<CsvOptions>>({});
+
+    useEffect(() => {
+        const params = new URLSearchParams(csvChanges as Record<string, string>);
+        fetch(`/api/files/${fileId}/sheets?${params}`)
+            .then(res => res.json())
+            .then(data => {
+                setSheets(data.sheets);
+                setCsv(data.csv);
+                // Another delimiter or encoding may move the header row
+                setLayout(prev => prev && data.csv && prev.sheetName === data.layout.sheetName
+                    ? { sheetName: prev.sheetName, ...data.sheets.find((s: SheetInfo) => s.name === prev.sheetName).detected }
+                    : data.layout);
+            })
+            .catch(console.error);
+    }, [fileId, csvChanges]);
+
+    if (!layout) return <p>Loading sheets...</p>;
+
+    const sheet = sheets.find(s => s.name === layout.sheetName) || sheets[0];
+
+    const selectSheet = (name: string) => {
+        const next = sheets.find(s => s.name === name)!;
+        setLayout({ sheetName: name, ...next.detected });
+    };
+
+    // Inputs show 1-based row numbers as in Excel
+    const setRow = (field: 'headerRow' | 'dataStartRow', rowNumber: string) => {
+        const value = parseInt(rowNumber, 10);
+        if (isNaN(value) || value < 1) return;
+        const next = { ...layout, [field]: value - 1 };
+        if (field === 'headerRow' && next.dataStartRow <= next.headerRow) next.dataStartRow = next.headerRow + 1;
+        setLayout(next);
+    };
+
+    const save = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/files/${fileId}/layout`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...layout, csv: csv ? csvChanges : undefined })
+        });
+        setSaving(false);
+        if (res.ok) {
+            onSaved();
+        } else {
+            const err = await res.json();
+            alert('Saving layout failed: ' + err.error);
+        }
+    };
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', margin: '0.5rem 0', textAlign: 'left', fontSize: '0.9em' }}>
+            {csv && (
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                    <label>
+                        Encoding:{' '}
+                        <select value={csv.encoding} onChange={(e) => setCsvChanges({ ...csvChanges, encoding: e.target.value })}>
+                            {ENCODINGS.map(enc => <option key={enc} value={enc}>{enc}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Delimiter:{' '}
+                        <select value={csv.delimiter} onChange={(e) => setCsvChanges({ ...csvChanges, delimiter: e.target.value })}>
+                            {Object.entries(DELIMITERS).map(([d, label]) => <option key={d} value={d}>{label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Quote:{' '}
+                        <select value={csv.quote} onChange={(e) => setCsvChanges({ ...csvChanges, quote: e.target.value })}>
+                            {Object.entries(QUOTES).map(([q, label]) => <option key={q} value={q}>{label}</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                <label>
+                    Sheet:{' '}
+                    <select value={layout.sheetName} onChange={(e) => selectSheet(e.target.value)}>
+                        {sheets.map(s => <option key={s.name} value={s.name}>{s.name} ({s.rowCount} rows)</option>)}
+                    </select>
+                </label>
+                <label>
+                    Header row:{' '}
+                    <input type="number" min={1} value={layout.headerRow + 1} onChange={(e) => setRow('headerRow', e.target.value)} style={{ width: '60px' }} />
+                </label>
+                <label>
+                    Data starts at row:{' '}
+                    <input type="number" min={layout.headerRow + 2} value={layout.dataStartRow + 1} onChange={(e) => setRow('dataStartRow', e.target.value)} style={{ width: '60px' }} />
+                </label>
+                <button onClick={() => setLayout({ sheetName: sheet.name, ...sheet.detected })} title="Detect the header row again">Auto-detect</button>
+            </div>
+
+            {sheet && (
+                <div style={{ overflowX: 'auto', maxHeight: '300px' }}>
+                    <table style={{ borderCollapse: 'collapse', fontSize: '0.85em' }}>
+                        <tbody>
+                            {sheet.preview.map((row, i) => {
+                                const rowIndex = sheet.firstRow + i;
+                                const isHeader = rowIndex === layout.headerRow;
+                                const isData = rowIndex >= layout.dataStartRow;
+                                return (
+                                    <tr
+                                        key={rowIndex}
+                                        onClick={() => setRow('headerRow', String(rowIndex + 1))}
+                                        title="Click to use this row as the header"
+                                        style={{ cursor: 'pointer', background: isHeader ? '#cfe2ff' : isData ? 'white' : '#f3f3f3', color: isHeader || isData ? '#000' : '#999', fontWeight: isHeader ? 'bold' : 'normal' }}
+                                    >
+                                        <td style={{ ...cellStyle, color: '#888' }}>{rowIndex + 1}</td>
+                                        {row.map((value, c) => <td key={c} style={cellStyle}>{value}</td>)}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem' }}>
+                <button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Apply & Re-analyze Columns'}</button>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+
+interface Template {
+    id: number;
+    name: string;
+    description: string | null;
+    columnCount: number;
+    updated_at: string;
+}
+
+interface ApplyReport {
+    found: { source: string; target: string | null }[];
+    missing: { column: string; fileType: 'source' | 'target' }[];
+    new: { source: string[]; target: string[] };
+    missingCodebooks: string[];
+    applied: number;
+    columnRules: number;
+}
+
+interface Props {
+    projectId: number;
+    // Stores the mapping being edited, templates are made from the saved one
+    saveMappings: () => Promise<boolean>;
+    onApplied: () => void;
+    onClose: () => void;
+}
+
+const listStyle = { margin: '0.25rem 0', paddingLeft: '1.25rem' };
+
+export default function TemplatePanel({ projectId, saveMappings, onApplied, onClose }: Props) {
+    const [templates, setTemplates] = useState<Template[]>([]);
+    const [reload, setReload] = useState(0);
+    const [name, setName] = useState('');
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [preview, setPreview] = useState<ApplyReport | null>(null);
+    const [applied, setApplied] = useState(false);
+
+    useEffect(() => {
+        fetch('/api/templates')
+            .then(res => res.json())
+            .then(setTemplates)
+            .catch(console.error);
+    }, [reload]);
+
+    const saveAsTemplate = async () => {
+        if (!name.trim()) return;
+        if (!await saveMappings()) return;
+
+        const post = (replace: boolean) => fetch('/api/templates', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, projectId, replace })
+        });
+        let res = await post(false);
+        let data = await res.json();
+        if (!res.ok && data.error?.includes('already exists') && confirm(`Template '${name}' already exists. Replace it?`)) {
+            res = await post(true);
+            data = await res.json();
+        }
+        if (!res.ok) {
+            alert('Saving template failed: ' + data.error);
+            return;
+        }
+        setName('');
+        setReload(r => r + 1);
+    };
+
+    const applyTemplate = async (templateId: number, dryRun: boolean) => {
+        const res = await fetch(`/api/projects/${projectId}/apply-template`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ templateId, dryRun })
+        });
+        const data = await res.json();
+        if (!res.ok) {
+            alert(data.error);
+            return;
+        }
+        setSelectedId(templateId);
+        setPreview(data);
+        setApplied(!dryRun);
+        if (!dryRun) onApplied();
+    };
+
+    const deleteTemplate = async (template: Template) => {
+        if (!confirm(`Delete template '${template.name}'?`)) return;
+        await fetch(`/api/templates/${template.id}`, { method: 'DELETE' });
+        if (selectedId === template.id) setPreview(null);
+        setReload(r => r + 1);
+    };
+
+    const importTemplate = async (file: File) => {
+        let body: { name?: string };
+        try {
+            body = JSON.parse(await file.text());
+        } catch {
+            alert('The file is not valid JSON');
+            return;
+        }
+        const post = (replace: boolean) => fetch(`/api/templates/import${replace ? '?replace=1' : ''}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        let res = await post(false);
+        if (res.status === 409 && confirm(`Template '${body.name}' already exists. Replace it?`)) res = await post(true);
+        const data = await res.json();
+        if (!res.ok) {
+            alert('Import failed: ' + data.error);
+            return;
+        }
+        setReload(r => r + 1);
+    };
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+                <input type="text" placeholder="Template name" value={name} onChange={(e) => setName(e.target.value)} style={{ padding: '5px' }} />
+                <button onClick={saveAsTemplate} disabled={!name.trim()}>Save Mapping as Template</button>
+                <label style={{ marginLeft: 'auto' }}>
+                    Import JSON:{' '}
+                    <input type="file" accept=".json,application/json" onChange={(e) => { if (e.target.files?.[0]) importTemplate(e.target.files[0]); e.target.value = ''; }} />
+                </label>
+            </div>
+
+            {templates.length === 0 ? (
+                <p style={{ color: '#888' }}>No templates saved yet.</p>
+            ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <tbody>
+                        {templates.map(t => (
+                            <tr key={t.id} style={{ borderBottom: '1px solid #eee', background: t.id === selectedId ? '#f3f8ff' : 'white' }}>
+                                <td style={{ padding: '5px' }}><strong>{t.name}</strong>{t.description && <span style={{ color: '#666' }}> – {t.description}</span>}</td>
+                                <td style={{ padding: '5px', color: '#666' }}>{t.columnCount} columns, {t.updated_at}</td>
+                                <td style={{ padding: '5px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                                    <button onClick={() => applyTemplate(t.id, true)} style={{ marginRight: '4px', background: '#6c757d' }}>Preview</button>
+                                    <button onClick={() => applyTemplate(t.id, false)} style={{ marginRight: '4px', background: '#007bff' }}>Apply</button>
+                                    <a href={`/api/templates/${t.id}/export`} download style={{ marginRight: '8px' }}>Export</a>
+                                    <button onClick={() => deleteTemplate(t)} style={{ background: '#dc3545' }}>Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {preview && (
+                <div style={{ marginTop: '0.75rem', padding: '0.5rem', background: applied ? '#d4edda' : '#f8f9fa', border: '1px solid #ddd' }}>
+                    <strong>
+                        {applied ? `Applied ${preview.applied} mappings` : `Applying would set ${preview.applied} mappings`}
+                        {preview.columnRules > 0 && ` and ${preview.columnRules} column rules`}.
+                    </strong>
+                    <div>Found: {preview.found.length} template columns{preview.found.some(f => !f.target) && ` (${preview.found.filter(f => !f.target).length} without a target column)`}</div>
+                    {preview.missing.length > 0 && (
+                        <div style={{ color: '#721c24' }}>
+                            Missing in the files:
+                            <ul style={listStyle}>
+                                {preview.missing.map(m => <li key={m.fileType + m.column}>{m.column} ({m.fileType})</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {(preview.new.source.length > 0 || preview.new.target.length > 0) && (
+                        <div style={{ color: '#856404' }}>
+                            New columns, not in the template:
+                            <ul style={listStyle}>
+                                {preview.new.source.length > 0 && <li>Source: {preview.new.source.join(', ')}</li>}
+                                {preview.new.target.length > 0 && <li>Target: {preview.new.target.join(', ')}</li>}
+                            </ul>
+                        </div>
+                    )}
+                    {preview.missingCodebooks.length > 0 && (
+                        <div style={{ color: '#721c24' }}>Codebooks not uploaded, their rules are skipped: {preview.missingCodebooks.join(', ')}</div>
+                    )}
+                </div>
+            )}
+
+            <div style={{ marginTop: '0.5rem' }}>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+export interface Translation {
+    codebookFileId: number;
+    from?: string;
+    to?: string;
+    ignoreCase?: boolean;
+    collapseWhitespace?: boolean;
+}
+
+interface Props {
+    translation?: Translation;
+    codebookFiles: { id: number; original_filename: string; columns: { column_name: string }[] }[];
+    onChange: (translation: Translation | undefined) => void;
+}
+
+const selectStyle = { padding: '3px', width: '100%', marginTop: '4px' };
+
+// Source values translated through a codebook (e.g. label -> code) before they are compared
+export default function TranslationEditor({ translation, codebookFiles, onChange }: Props) {
+    const codebook = codebookFiles.find(f => f.id === translation?.codebookFileId);
+    const columns: string[] = codebook ? codebook.columns.map(c => c.column_name) : [];
+
+    return (
+        <div style={{ fontSize: '0.85em', marginTop: '4px' }}>
+            <select
+                value={translation?.codebookFileId ?? ''}
+                onChange={(e) => onChange(e.target.value ? { ...translation, codebookFileId: parseInt(e.target.value), from: undefined, to: undefined } : undefined)}
+                style={selectStyle}
+                title="Look the source value up in a codebook and compare its translation"
+            >
+                <option value="">No translation</option>
+                {codebookFiles.map(f => <option key={f.id} value={f.id}>Translate via {f.original_filename}</option>)}
+            </select>
+
+            {translation && codebook && (
+                <>
+                    <select value={translation.from || ''} onChange={(e) => onChange({ ...translation, from: e.target.value || undefined })} style={selectStyle} title="Codebook column holding the source values">
+                        <option value="">From: label columns</option>
+                        {columns.map(c => <option key={c} value={c}>From: {c}</option>)}
+                    </select>
+                    <select value={translation.to || ''} onChange={(e) => onChange({ ...translation, to: e.target.value || undefined })} style={selectStyle} title="Codebook column the target should hold">
+                        <option value="">To: code column</option>
+                        {columns.map(c => <option key={c} value={c}>To: {c}</option>)}
+                    </select>
+                    <label style={{ display: 'block', marginTop: '4px' }}>
+                        <input type="checkbox" checked={!!translation.ignoreCase} onChange={(e) => onChange({ ...translation, ignoreCase: e.target.checked })} /> Ignore case
+                    </label>
+                    <label style={{ display: 'block' }}>
+                        <input type="checkbox" checked={!!translation.collapseWhitespace} onChange={(e) => onChange({ ...translation, collapseWhitespace: e.target.checked })} /> Normalize whitespace
+                    </label>
+                </>
+            )}
+        </div>
+    );
+}
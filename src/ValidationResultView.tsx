@@ -1,12 +1,68 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import RunDiffView from './RunDiffView';
+import WaiversPanel, { type Waiver, type WaiverDraft } from './WaiversPanel';
 
 interface Issue {
+    id?: number;
     key: string;
+    keyParts?: string[];
     type: string;
+    severity?: 'error' | 'warning' | 'info';
+    rule?: string;
     message?: string;
     column?: string;
     expected?: string;
     actual?: string;
+    sourceRow?: number;
+    targetRow?: number;
+    rows?: number[];
+    waiverId?: number;
+}
+
+interface ReconciliationResult {
+    measure: string;
+    column?: string;
+    groupBy?: string;
+    group?: string;
+    source: number | null;
+    target: number | null;
+    difference: number | null;
+    skipped: number;
+    passed: boolean;
+    severity: string;
+}
+
+interface Run {
+    id: number;
+    created_at: string;
+    source_filename: string | null;
+    target_filename: string;
+    key_columns: string[];
+    issues_count: number;
+    issue_counts: Record<string, number>;
+    severity_counts: Record<string, number>; // open issues only
+    waived_count: number;
+    reconciliation?: ReconciliationResult[];
+    columns?: string[];
+}
+
+interface Job {
+    id: number;
+    status: 'running' | 'cancelling' | 'completed' | 'failed' | 'cancelled';
+    phase: 'source' | 'target' | 'compare' | null;
+    rows_processed: number;
+    rows_total: number;
+    progress: number;
+    run_id: number | null;
+    error: string | null;
+}
+
+interface Filters {
+    type: string;
+    severity: string;
+    column: string;
+    search: string;
+    status: string;
 }
 
 interface Props {
@@ -14,84 +70,474 @@ interface Props {
     onBack: () => void;
 }
 
+const PAGE_SIZE = 100;
+const NO_FILTERS: Filters = { type: '', severity: '', column: '', search: '', status: '' };
+const POLL_INTERVAL = 1000;
+const PHASE_LABELS: Record<string, string> = { source: 'Reading source file', target: 'Reading target file', compare: 'Comparing rows' };
+
+// Header checks of the target against the source, each off or reported with a severity
+const STRUCTURE_CHECKS: Record<string, string> = {
+    missing_column: 'Missing columns',
+    extra_column: 'Extra columns',
+    column_order: 'Column order',
+    header_spelling: 'Header spelling',
+};
+
+// e.g. 'SUM of Amount per Region'
+const describeCheck = (r: ReconciliationResult) =>
+    `${r.measure === 'count' ? 'Row count' : `${r.measure.toUpperCase()} of ${r.column}`}${r.groupBy ? ` per ${r.groupBy}` : ''}`;
+
+const isActive = (job: Job | null) => !!job && (job.status === 'running' || job.status === 'cancelling');
+
 export default function ValidationResultView({ projectId, onBack }: Props) {
+    const [runs, setRuns] = useState<Run[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+    const [compareRunId, setCompareRunId] = useState<number | null>(null);
+    const [run, setRun] = useState<Run | null>(null);
     const [issues, setIssues] = useState<Issue[]>([]);
-    const [loading, setLoading] = useState(false);
-    const [ran, setRan] = useState(false);
-    const [stats, setStats] = useState({ count: 0 });
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+    const [job, setJob] = useState<Job | null>(null);
+    const [duplicateKeysAsMultiset, setDuplicateKeysAsMultiset] = useState(false);
+    const [structure, setStructure] = useState<Record<string, string>>({});
+    const [waivers, setWaivers] = useState<Waiver[]>([]);
+    // Bumped when waivers change, so that the run and its issues are reloaded
+    const [waiverVersion, setWaiverVersion] = useState(0);
+    const [waiverDraft, setWaiverDraft] = useState<WaiverDraft | null>(null);
+    const [showWaivers, setShowWaivers] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/settings`)
+            .then(res => res.json())
+            .then(settings => {
+                setDuplicateKeysAsMultiset(!!settings.duplicateKeysAsMultiset);
+                setStructure(settings.structure || {});
+            })
+            .catch(console.error);
+
+        // Show the latest run when coming back to the report
+        fetch(`/api/projects/${projectId}/runs`)
+            .then(res => res.json())
+            .then((data: Run[]) => {
+                setRuns(data);
+                setSelectedRunId(data.length > 0 ? data[0].id : null);
+            })
+            .catch(console.error);
+
+        // A validation started earlier may still be running in the background
+        fetch(`/api/projects/${projectId}/jobs`)
+            .then(res => res.json())
+            .then((jobs: Job[]) => {
+                if (jobs.length > 0 && isActive(jobs[0])) setJob(jobs[0]);
+            })
+            .catch(console.error);
+    }, [projectId]);
+
+    const activeJobId = isActive(job) ? job!.id : null;
+
+    useEffect(() => {
+        if (!activeJobId) return;
+        const timer = setInterval(() => {
+            fetch(`/api/jobs/${activeJobId}`)
+                .then(res => res.json())
+                .then(async (data: Job) => {
+                    setJob(data);
+                    if (data.status === 'failed') alert('Validation failed: ' + data.error);
+                    if (data.status !== 'completed' || !data.run_id) return;
+
+                    const runsRes = await fetch(`/api/projects/${projectId}/runs`);
+                    setRuns(await runsRes.json());
+                    setSelectedRunId(data.run_id);
+                    setCompareRunId(null);
+                    setFilters(NO_FILTERS);
+                    setPage(1);
+                })
+                .catch(console.error);
+        }, POLL_INTERVAL);
+        return () => clearInterval(timer);
+    }, [activeJobId, projectId]);
+
+    useEffect(() => {
+        fetch(`/api/projects/${projectId}/waivers`)
+            .then(res => res.json())
+            .then(setWaivers)
+            .catch(console.error);
+    }, [projectId, waiverVersion]);
+
+    useEffect(() => {
+        if (!selectedRunId) return;
+        fetch(`/api/runs/${selectedRunId}`)
+            .then(res => res.json())
+            .then(setRun)
+            .catch(console.error);
+    }, [selectedRunId, waiverVersion]);
+
+    useEffect(() => {
+        if (!selectedRunId) return;
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        for (const [name, value] of Object.entries(filters)) {
+            if (value) params.set(name, value);
+        }
+        fetch(`/api/runs/${selectedRunId}/issues?${params}`)
+            .then(res => res.json())
+            .then(data => {
+                setIssues(data.issues);
+                setTotal(data.total);
+            })
+            .catch(console.error);
+    }, [selectedRunId, page, filters, waiverVersion]);
+
+    const toggleMultiset = async (enabled: boolean) => {
+        setDuplicateKeysAsMultiset(enabled);
+        await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ duplicateKeysAsMultiset: enabled })
+        });
+    };
+
+    const changeStructure = async (check: string, severity: string) => {
+        const updated = { ...structure, [check]: severity };
+        setStructure(updated);
+        await fetch(`/api/projects/${projectId}/settings`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ structure: updated })
+        });
+    };
+
+    const selectRun = (runId: number | null) => {
+        setSelectedRunId(runId);
+        setCompareRunId(null);
+        setFilters(NO_FILTERS);
+        setPage(1);
+    };
+
+    const updateFilter = (name: keyof Filters, value: string) => {
+        setFilters(prev => ({ ...prev, [name]: value }));
+        setPage(1);
+    };
 
     const runValidation = async () => {
-        setLoading(true);
         try {
             const res = await fetch(`/api/projects/${projectId}/validate`, { method: 'POST' });
             const data = await res.json();
-            if (data.error) {
-                alert(data.error);
-            } else {
-                setIssues(data.issues);
-                setStats({ count: data.issuesCount });
-                setRan(true);
-            }
+            if (data.job) setJob(data.job);
+            if (res.status !== 409 && data.error) alert(data.error);
         } catch (e) {
             console.error(e);
             alert('Validation failed to run');
         }
-        setLoading(false);
     };
 
+    const waiversChanged = async () => {
+        setWaiverVersion(v => v + 1);
+        const res = await fetch(`/api/projects/${projectId}/runs`);
+        setRuns(await res.json());
+    };
+
+    const openWaivers = (draft: WaiverDraft | null) => {
+        setWaiverDraft(draft);
+        setShowWaivers(true);
+    };
+
+    const cancelValidation = async () => {
+        if (!job) return;
+        const res = await fetch(`/api/jobs/${job.id}/cancel`, { method: 'POST' });
+        const data = await res.json();
+        setJob(data.job || data);
+    };
+
+    const keyColumns = run?.key_columns || [];
+    const errors = run?.severity_counts.error || 0;
+    const warnings = run?.severity_counts.warning || 0;
+    const info = run?.severity_counts.info || 0;
+    const waived = run?.waived_count || 0;
+    const open = (run?.issues_count || 0) - waived;
+    const waiverOf = (id?: number) => waivers.find(w => w.id === id);
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
     return (
         <div className="validation-view">
             <div className="header-actions" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
                 <button onClick={onBack} style={{ background: '#666' }}> Back </button>
                 <h2>Validation Report</h2>
-                <button onClick={runValidation} style={{ background: '#007bff' }}>Run Validation</button>
+                <button onClick={runValidation} disabled={isActive(job)} style={{ background: '#007bff' }}>Run Validation</button>
             </div>
 
-            {loading && <p>Running validation... (This might take a moment)</p>}
+            <label style={{ display: 'block', marginBottom: '1rem', fontSize: '0.9em' }} title="Rows sharing a key are matched regardless of order instead of being reported as duplicates">
+                <input
+                    type="checkbox"
+                    checked={duplicateKeysAsMultiset}
+                    onChange={(e) => toggleMultiset(e.target.checked)}
+                /> Compare rows with duplicate keys as multisets
+            </label>
+
+            <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1rem', fontSize: '0.9em' }}>
+                <span title="Columns of the target header compared with the source (or with the schema of a single file)">Header checks:</span>
+                {Object.entries(STRUCTURE_CHECKS).map(([check, label]) => (
+                    <label key={check}>
+                        {label}{' '}
+                        <select value={structure[check] || 'warning'} onChange={(e) => changeStructure(check, e.target.value)} style={{ padding: '2px' }}>
+                            <option value="off">off</option>
+                            <option value="warning">warning</option>
+                            <option value="error">error</option>
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            {runs.length > 0 && (
+                <div style={{ marginBottom: '1rem' }}>
+                    <label>
+                        Run:{' '}
+                        <select value={selectedRunId ?? ''} onChange={(e) => selectRun(e.target.value ? parseInt(e.target.value) : null)} style={{ padding: '5px' }}>
+                            {runs.map(r => (
+                                <option key={r.id} value={r.id}>
+                                    #{r.id} – {r.created_at} – {r.issues_count - (r.waived_count || 0)} open issues{r.waived_count ? `, ${r.waived_count} waived` : ''} ({r.target_filename})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {runs.some(r => selectedRunId && r.id < selectedRunId) && (
+                        <label style={{ marginLeft: '1rem' }}>
+                            Compare with:{' '}
+                            <select value={compareRunId ?? ''} onChange={(e) => setCompareRunId(e.target.value ? parseInt(e.target.value) : null)} style={{ padding: '5px' }}>
+                                <option value="">-- none --</option>
+                                {runs.filter(r => selectedRunId && r.id < selectedRunId).map(r => (
+                                    <option key={r.id} value={r.id}>#{r.id} – {r.created_at}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                </div>
+            )}
+
+            {job && isActive(job) && (
+                <div style={{ marginBottom: '1rem', padding: '0.75rem', border: '1px solid #ccc', borderRadius: '4px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                        <span>
+                            {job.status === 'cancelling' ? 'Cancelling...' : `${PHASE_LABELS[job.phase || ''] || 'Starting validation'}...`}
+                            {job.rows_total > 0 && ` ${job.rows_processed.toLocaleString()} / ${job.rows_total.toLocaleString()} rows`}
+                        </span>
+                        <button onClick={cancelValidation} disabled={job.status === 'cancelling'} style={{ background: '#dc3545' }}>Cancel</button>
+                    </div>
+                    <div style={{ height: '12px', background: '#e9ecef', borderRadius: '6px', overflow: 'hidden' }}>
+                        <div style={{ width: `${job.progress}%`, height: '100%', background: '#007bff', transition: 'width 0.3s' }} />
+                    </div>
+                    <div style={{ fontSize: '0.8em', color: '#666', marginTop: '0.25rem' }}>{job.progress}% – you can leave this page, the validation continues in the background.</div>
+                </div>
+            )}
+
+            {job?.status === 'cancelled' && <p style={{ color: '#856404' }}>Validation #{job.id} was cancelled.</p>}
 
-            {!loading && ran && (
+            {run && (
                 <div>
-                    <div className="summary" style={{ marginBottom: '1rem', padding: '1rem', background: stats.count > 0 ? '#fff3cd' : '#d4edda', border: '1px solid #ccc' }}>
-                        {stats.count === 0 ? (
+                    <div className="summary" style={{ marginBottom: '1rem', padding: '1rem', background: errors > 0 ? '#f8d7da' : open > 0 ? '#fff3cd' : '#d4edda', border: '1px solid #ccc' }}>
+                        {run.issues_count === 0 ? (
                             <strong style={{ color: 'green' }}>Success! No issues found.</strong>
                         ) : (
-                            <strong style={{ color: '#856404' }}>Found {stats.count} issues. (Showing first {issues.length})</strong>
+                            <>
+                                {open === 0 ? (
+                                    <strong style={{ color: 'green' }}>Passed: all {waived} issues are waived as known differences.</strong>
+                                ) : (
+                                    <strong style={{ color: errors > 0 ? '#721c24' : '#856404' }}>
+                                        Found {open} open issues: {errors} errors, {warnings} warnings, {info} info.
+                                        {waived > 0 && ` ${waived} more waived.`}
+                                    </strong>
+                                )}
+                                <div style={{ marginTop: '0.5rem', fontSize: '0.9em' }}>
+                                    {Object.entries(run.issue_counts).map(([type, count]) => (
+                                        <span
+                                            key={type}
+                                            onClick={() => updateFilter('type', filters.type === type ? '' : type)}
+                                            style={{ marginRight: '1rem', cursor: 'pointer', textDecoration: filters.type === type ? 'underline' : 'none' }}
+                                        >
+                                            {type}: <strong>{count}</strong>
+                                        </span>
+                                    ))}
+                                </div>
+                            </>
                         )}
+                        <button onClick={() => showWaivers ? setShowWaivers(false) : openWaivers(null)} style={{ marginTop: '0.5rem', marginLeft: '0', background: '#6c757d', padding: '2px 8px', fontSize: '0.85em' }}>
+                            Waivers ({waivers.length})
+                        </button>
+                        <div style={{ marginTop: '0.5rem', fontSize: '0.8em', color: '#666' }}>
+                            {run.source_filename ? `${run.source_filename} → ${run.target_filename}` : `${run.target_filename} (column rules only)`}
+                            <span style={{ float: 'right' }}>
+                                Download:{' '}
+                                <a href={`/api/runs/${run.id}/report/xlsx`}>Excel</a>{' | '}
+                                <a href={`/api/runs/${run.id}/report/csv?delimiter=;`}>CSV</a>{' | '}
+                                <a href={`/api/runs/${run.id}/report/html`}>HTML</a>{' | '}
+                                <a href={`/api/runs/${run.id}/report/json`}>JSON</a>{' | '}
+                                <a href={`/api/runs/${run.id}/report/junit`} title="JUnit XML for CI pipelines">JUnit</a>{' | '}
+                                <a href={`/api/runs/${run.id}/annotated-target`} title="Copy of the target file with problem cells highlighted and commented">Annotated Target</a>
+                            </span>
+                        </div>
                     </div>
 
-                    {issues.length > 0 && (
-                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
-                            <thead>
-                                <tr style={{ background: '#eee', textAlign: 'left' }}>
-                                    <th style={{ padding: '8px' }}>Type</th>
-                                    <th style={{ padding: '8px' }}>Key</th>
-                                    <th style={{ padding: '8px' }}>Column</th>
-                                    <th style={{ padding: '8px' }}>Expected</th>
-                                    <th style={{ padding: '8px' }}>Actual</th>
-                                    <th style={{ padding: '8px' }}>Message</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {issues.map((issue, idx) => (
-                                    <tr key={idx} style={{ borderBottom: '1px solid #ddd' }}>
-                                        <td style={{ padding: '8px' }}>
-                                            <span style={{
-                                                padding: '2px 6px', borderRadius: '4px', fontSize: '0.8em',
-                                                background: issue.type === 'value_mismatch' ? '#f8d7da' : '#e2e3e5',
-                                                color: issue.type === 'value_mismatch' ? '#721c24' : '#383d41'
-                                            }}>
-                                                {issue.type}
-                                            </span>
-                                        </td>
-                                        <td style={{ padding: '8px' }}><strong>{issue.key}</strong></td>
-                                        <td style={{ padding: '8px' }}>{issue.column || '-'}</td>
-                                        <td style={{ padding: '8px', color: 'green' }}>{issue.expected}</td>
-                                        <td style={{ padding: '8px', color: 'red' }}>{issue.actual}</td>
-                                        <td style={{ padding: '8px' }}>{issue.message}</td>
+                    {run.reconciliation && run.reconciliation.length > 0 && !compareRunId && (
+                        <div style={{ marginBottom: '1rem' }}>
+                            <h3 style={{ margin: '0 0 0.5rem' }}>Reconciliation</h3>
+                            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+                                <thead>
+                                    <tr style={{ background: '#eee', textAlign: 'left' }}>
+                                        <th style={{ padding: '6px' }}>Check</th>
+                                        <th style={{ padding: '6px' }}>Group</th>
+                                        <th style={{ padding: '6px' }}>Source</th>
+                                        <th style={{ padding: '6px' }}>Target</th>
+                                        <th style={{ padding: '6px' }}>Difference</th>
+                                        <th style={{ padding: '6px' }}>Result</th>
                                     </tr>
-                                ))}
-                            </tbody>
-                        </table>
+                                </thead>
+                                <tbody>
+                                    {run.reconciliation.map((r, idx) => (
+                                        <tr key={idx} style={{ borderBottom: '1px solid #ddd' }}>
+                                            <td style={{ padding: '6px' }}>{describeCheck(r)}</td>
+                                            <td style={{ padding: '6px' }}>{r.group ?? ''}</td>
+                                            <td style={{ padding: '6px' }}>{r.source?.toLocaleString() ?? '-'}</td>
+                                            <td style={{ padding: '6px' }}>{r.target?.toLocaleString() ?? '-'}</td>
+                                            <td style={{ padding: '6px' }}>{r.difference?.toLocaleString() ?? '-'}</td>
+                                            <td style={{ padding: '6px', color: r.passed ? 'green' : r.severity === 'error' ? '#721c24' : '#856404' }}>
+                                                {r.passed ? 'passed' : `failed (${r.severity})`}
+                                                {r.skipped > 0 && <span style={{ color: '#888' }} title="Non-empty values that are not numbers"> – {r.skipped} values skipped</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {showWaivers && (
+                        <WaiversPanel
+                            key={JSON.stringify(waiverDraft)}
+                            projectId={projectId}
+                            runId={run.id}
+                            waivers={waivers}
+                            issueTypes={Object.keys(run.issue_counts)}
+                            columns={run.columns || []}
+                            draft={waiverDraft}
+                            onChange={waiversChanged}
+                            onClose={() => setShowWaivers(false)}
+                        />
+                    )}
+
+                    {compareRunId && selectedRunId ? (
+                        <RunDiffView baseRunId={compareRunId} headRunId={selectedRunId} />
+                    ) : (
+                        <>
+                            {run.issues_count > 0 && (
+                                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                                    <select value={filters.type} onChange={(e) => updateFilter('type', e.target.value)} style={{ padding: '5px' }}>
+                                        <option value="">All types</option>
+                                        {Object.keys(run.issue_counts).map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <select value={filters.severity} onChange={(e) => updateFilter('severity', e.target.value)} style={{ padding: '5px' }}>
+                                        <option value="">All severities</option>
+                                        <option value="error">error</option>
+                                        <option value="warning">warning</option>
+                                        <option value="info">info</option>
+                                    </select>
+                                    <select value={filters.column} onChange={(e) => updateFilter('column', e.target.value)} style={{ padding: '5px' }}>
+                                        <option value="">All columns</option>
+                                        {(run.columns || []).map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                    {waived > 0 && (
+                                        <select value={filters.status} onChange={(e) => updateFilter('status', e.target.value)} style={{ padding: '5px' }}>
+                                            <option value="">Open and waived</option>
+                                            <option value="open">Open</option>
+                                            <option value="waived">Waived</option>
+                                        </select>
+                                    )}
+                                    <input
+                                        type="text"
+                                        value={filters.search}
+                                        onChange={(e) => updateFilter('search', e.target.value)}
+                                        placeholder="Search key or value"
+                                        style={{ flex: 1 }}
+                                    />
+                                </div>
+                            )}
+
+                            {issues.length > 0 && (
+                                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+                                    <thead>
+                                        <tr style={{ background: '#eee', textAlign: 'left' }}>
+                                            <th style={{ padding: '8px' }}>Type</th>
+                                            <th style={{ padding: '8px' }}>Key{keyColumns.length > 1 && <span style={{ fontWeight: 'normal', color: '#666' }}> ({keyColumns.join(' + ')})</span>}</th>
+                                            <th style={{ padding: '8px' }}>Column</th>
+                                            <th style={{ padding: '8px' }}>Expected</th>
+                                            <th style={{ padding: '8px' }}>Actual</th>
+                                            <th style={{ padding: '8px' }}>Message</th>
+                                            <th style={{ padding: '8px' }}></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {issues.map((issue, idx) => (
+                                            <tr key={issue.id ?? idx} style={{ borderBottom: '1px solid #ddd', opacity: issue.waiverId ? 0.55 : 1 }}>
+                                                <td style={{ padding: '8px' }}>
+                                                    <span style={{
+                                                        padding: '2px 6px', borderRadius: '4px', fontSize: '0.8em',
+                                                        background: issue.type === 'value_mismatch' ? '#f8d7da' : issue.type.startsWith('duplicate_key') ? '#ffe5d0' : '#e2e3e5',
+                                                        color: issue.type === 'value_mismatch' ? '#721c24' : issue.type.startsWith('duplicate_key') ? '#8a4b0f' : '#383d41'
+                                                    }}>
+                                                        {issue.type}
+                                                    </span>
+                                                    {issue.severity && issue.severity !== 'error' && (
+                                                        <div style={{ fontSize: '0.75em', color: issue.severity === 'warning' ? '#856404' : '#0c5460' }}>{issue.severity}</div>
+                                                    )}
+                                                </td>
+                                                <td style={{ padding: '8px' }}>
+                                                    {issue.keyParts && issue.keyParts.length > 1 ? (
+                                                        issue.keyParts.map((part, i) => (
+                                                            <div key={i} style={{ whiteSpace: 'nowrap' }}>
+                                                                <span style={{ color: '#888', fontSize: '0.85em' }}>{keyColumns[i]}:</span> <strong>{part}</strong>
+                                                            </div>
+                                                        ))
+                                                    ) : (
+                                                        <strong>{issue.key}</strong>
+                                                    )}
+                                                    {(issue.sourceRow || issue.targetRow) && (
+                                                        <div style={{ color: '#888', fontSize: '0.75em', whiteSpace: 'nowrap' }}>
+                                                            {issue.sourceRow && `source row ${issue.sourceRow}`}
+                                                            {issue.sourceRow && issue.targetRow && ', '}
+                                                            {issue.targetRow && `target row ${issue.targetRow}`}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td style={{ padding: '8px' }}>{issue.column || '-'}</td>
+                                                <td style={{ padding: '8px', color: 'green' }}>{issue.expected}</td>
+                                                <td style={{ padding: '8px', color: 'red' }}>{issue.actual}</td>
+                                                <td style={{ padding: '8px' }}>{issue.message}</td>
+                                                <td style={{ padding: '8px', whiteSpace: 'nowrap' }}>
+                                                    {issue.waiverId ? (
+                                                        <span title={`${waiverOf(issue.waiverId)?.reason ?? ''} (${waiverOf(issue.waiverId)?.author ?? ''})`} style={{ fontSize: '0.8em', color: '#555' }}>waived</span>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => openWaivers({ issueType: issue.type, column: issue.column, key: issue.key })}
+                                                            style={{ background: '#6c757d', padding: '0 6px', fontSize: '0.8em' }}
+                                                            title="Accept this difference as known"
+                                                        >
+                                                            Waive
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+
+                            {total > PAGE_SIZE && (
+                                <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '1rem', marginTop: '1rem' }}>
+                                    <button disabled={page <= 1} onClick={() => setPage(p => p - 1)}>&lt; Prev</button>
+                                    <span>Page {page} / {pageCount} ({total} issues)</span>
+                                    <button disabled={page >= pageCount} onClick={() => setPage(p => p + 1)}>Next &gt;</button>
+                                </div>
+                            )}
+                        </>
                     )}
                 </div>
             )}
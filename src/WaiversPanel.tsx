@@ -0,0 +1,148 @@
+import { useState } from 'react';
+
+export interface Waiver {
+    id: number;
+    issue_type: string | null;
+    column_name: string | null;
+    issue_key: string | null;
+    key_from: string | null;
+    key_to: string | null;
+    reason: string;
+    author: string;
+    created_at: string;
+}
+
+// What a new waiver matches, prefilled from an issue of the report
+export interface WaiverDraft {
+    issueType?: string;
+    column?: string;
+    key?: string;
+}
+
+interface Props {
+    projectId: number;
+    runId: number;
+    waivers: Waiver[];
+    issueTypes: string[];
+    columns: string[];
+    draft: WaiverDraft | null;
+    onChange: () => void;
+    onClose: () => void;
+}
+
+const inputStyle = { padding: '3px' };
+const cellStyle = { padding: '4px 6px', borderBottom: '1px solid #eee' };
+
+const keyOf = (w: Waiver) =>
+    w.issue_key ?? (w.key_from || w.key_to ? `${w.key_from ?? '…'} – ${w.key_to ?? '…'}` : 'any');
+
+// Accepted differences of a project: issues matching a waiver are reported as waived
+// in this and every later run instead of as open
+export default function WaiversPanel({ projectId, runId, waivers, issueTypes, columns, draft, onChange, onClose }: Props) {
+    const [issueType, setIssueType] = useState(draft?.issueType || '');
+    const [column, setColumn] = useState(draft?.column || '');
+    const [byRange, setByRange] = useState(false);
+    const [key, setKey] = useState(draft?.key || '');
+    const [keyFrom, setKeyFrom] = useState('');
+    const [keyTo, setKeyTo] = useState('');
+    const [reason, setReason] = useState('');
+    const [author, setAuthor] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const addWaiver = async () => {
+        setSaving(true);
+        const res = await fetch(`/api/projects/${projectId}/waivers`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                issueType, column, reason, author, runId,
+                ...(byRange ? { keyFrom, keyTo } : { key })
+            })
+        });
+        setSaving(false);
+        if (res.ok) {
+            setReason('');
+            onChange();
+        } else {
+            const data = await res.json();
+            alert('Saving waiver failed: ' + data.error);
+        }
+    };
+
+    const removeWaiver = async (waiver: Waiver) => {
+        if (!confirm(`Remove the waiver "${waiver.reason}"? Issues it accepted are open again.`)) return;
+        await fetch(`/api/waivers/${waiver.id}`, { method: 'DELETE' });
+        onChange();
+    };
+
+    return (
+        <div style={{ border: '1px solid #ccc', borderRadius: '4px', padding: '0.75rem', marginBottom: '1rem', textAlign: 'left', fontSize: '0.9em' }}>
+            <div style={{ marginBottom: '0.5rem' }}>
+                Waived issues are known differences: they stay in the report but do not count as open, also in later runs.
+            </div>
+
+            {waivers.length > 0 && (
+                <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '0.75rem' }}>
+                    <thead>
+                        <tr style={{ background: '#f5f5f5', textAlign: 'left' }}>
+                            <th style={cellStyle}>Type</th>
+                            <th style={cellStyle}>Column</th>
+                            <th style={cellStyle}>Key</th>
+                            <th style={cellStyle}>Reason</th>
+                            <th style={cellStyle}>Author</th>
+                            <th style={cellStyle}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {waivers.map(w => (
+                            <tr key={w.id}>
+                                <td style={cellStyle}>{w.issue_type || 'any'}</td>
+                                <td style={cellStyle}>{w.column_name || 'any'}</td>
+                                <td style={cellStyle}>{keyOf(w)}</td>
+                                <td style={cellStyle}>{w.reason}</td>
+                                <td style={cellStyle} title={w.created_at}>{w.author}</td>
+                                <td style={cellStyle}>
+                                    <button onClick={() => removeWaiver(w)} style={{ background: '#dc3545', padding: '0 6px' }} title="Remove waiver">×</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <select value={issueType} onChange={(e) => setIssueType(e.target.value)} style={inputStyle}>
+                    <option value="">Any type</option>
+                    {issueType && !issueTypes.includes(issueType) && <option value={issueType}>{issueType}</option>}
+                    {issueTypes.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <select value={column} onChange={(e) => setColumn(e.target.value)} style={inputStyle}>
+                    <option value="">Any column</option>
+                    {column && !columns.includes(column) && <option value={column}>{column}</option>}
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <select value={byRange ? 'range' : 'key'} onChange={(e) => setByRange(e.target.value === 'range')} style={inputStyle}>
+                    <option value="key">Key</option>
+                    <option value="range">Key range</option>
+                </select>
+                {byRange ? (
+                    <>
+                        <input type="text" value={keyFrom} onChange={(e) => setKeyFrom(e.target.value)} placeholder="from" style={{ ...inputStyle, width: '80px' }} />
+                        <input type="text" value={keyTo} onChange={(e) => setKeyTo(e.target.value)} placeholder="to" style={{ ...inputStyle, width: '80px' }} />
+                    </>
+                ) : (
+                    <input type="text" value={key} onChange={(e) => setKey(e.target.value)} placeholder="any key" style={{ ...inputStyle, width: '120px' }} />
+                )}
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason" style={{ ...inputStyle, flex: 1 }} />
+                <input type="text" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Author" style={{ ...inputStyle, width: '140px' }} />
+            </div>
+
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button onClick={addWaiver} disabled={saving || !reason.trim() || !author.trim()}>{saving ? 'Saving...' : 'Add Waiver'}</button>
+                <button onClick={onClose} style={{ background: '#6c757d' }}>Close</button>
+            </div>
+        </div>
+    );
+}
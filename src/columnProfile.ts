@@ -0,0 +1,39 @@
+// Column profiles computed on upload (server/profile.ts)
+
+export interface ValueCount {
+    value: string;
+    count: number;
+}
+
+export interface ColumnProfile {
+    type: 'empty' | 'integer' | 'number' | 'date' | 'text';
+    rows: number;
+    empty: number;
+    distinct: number;
+    distinctCapped: boolean;
+    unique: boolean;
+    min: string | null;
+    max: string | null;
+    maxLength: number;
+    top: ValueCount[];
+    patterns: ValueCount[];
+}
+
+// Unique and never empty: the column can serve as a key
+export const isKeyCandidate = (p?: ColumnProfile | null) => !!p && p.rows > 0 && p.empty === 0 && p.unique;
+
+export const distinctOf = (p: ColumnProfile) => `${p.distinct}${p.distinctCapped ? '+' : ''}`;
+
+export const listCounts = (counts: ValueCount[]) => counts.map(c => `${c.value} (${c.count})`).join(', ');
+
+// One line for a table cell, e.g. "integer · 0 empty · 120 distinct"
+export const profileSummary = (p: ColumnProfile) => `${p.type} · ${p.empty} empty · ${distinctOf(p)} distinct`;
+
+// The whole profile as a tooltip
+export const profileDetails = (p: ColumnProfile) => [
+    `${p.rows} rows, ${p.empty} empty, ${distinctOf(p)} distinct${p.unique ? ' (unique)' : ''}`,
+    p.min !== null ? `Range: ${p.min} – ${p.max}` : null,
+    `Max length: ${p.maxLength}`,
+    p.top.length ? `Top values: ${listCounts(p.top)}` : null,
+    p.patterns.length ? `Patterns: ${listCounts(p.patterns)}` : null,
+].filter(Boolean).join('\n');